@@ -0,0 +1,186 @@
+// Aggregation
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { AggregationColumn, GenericRow, GenericValue } from "./common";
+import { compareValues } from "./util";
+
+/**
+ * State of an aggregation column for a group
+ */
+interface AggregationState {
+    count: number;
+    sum: number;
+    value: GenericValue;
+    distinct: Set<string>;
+}
+
+/**
+ * Group of rows
+ */
+interface AggregationGroup {
+    values: GenericRow;
+    states: AggregationState[];
+}
+
+/**
+ * Computes aggregations over rows, one row at a time.
+ * Used as fallback for drivers not implementing aggregate.
+ */
+export class Aggregator {
+    private groupBy: string[];
+    private aggregations: AggregationColumn[];
+    private groups: Map<string, AggregationGroup>;
+
+    /**
+     * Constructor
+     * @param groupBy List of fields to group by
+     * @param aggregations List of aggregation columns
+     */
+    constructor(groupBy: string[], aggregations: AggregationColumn[]) {
+        this.groupBy = groupBy;
+        this.aggregations = aggregations;
+        this.groups = new Map();
+    }
+
+    /**
+     * @returns The set of fields required to compute the aggregations
+     */
+    public getRequiredFields(): Set<string> {
+        const fields = new Set<string>(this.groupBy);
+        for (const aggregation of this.aggregations) {
+            if (aggregation.field) {
+                fields.add(aggregation.field);
+            }
+        }
+        return fields;
+    }
+
+    /**
+     * Adds a row
+     * @param row The row
+     */
+    public add(row: GenericRow) {
+        const groupKey = getValueKey(this.groupBy.map(field => row[field]));
+
+        if (!this.groups.has(groupKey)) {
+            this.groups.set(groupKey, this.createGroup(row));
+        }
+
+        const group = this.groups.get(groupKey);
+
+        for (let i = 0; i < this.aggregations.length; i++) {
+            const aggregation = this.aggregations[i];
+            const state = group.states[i];
+
+            if (aggregation.fn === "count") {
+                state.count++;
+                continue;
+            }
+
+            const value = row[aggregation.field];
+
+            if (value === null || value === undefined) {
+                continue;
+            }
+
+            state.count++;
+
+            switch (aggregation.fn) {
+            case "countDistinct":
+                state.distinct.add(getValueKey(value));
+                break;
+            case "sum":
+            case "avg":
+                state.sum += Number(value);
+                break;
+            case "min":
+                if (state.value === null || compareValues(value, state.value) < 0) {
+                    state.value = value;
+                }
+                break;
+            case "max":
+                if (state.value === null || compareValues(value, state.value) > 0) {
+                    state.value = value;
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * @returns The results, one row per group
+     */
+    public getResults(): GenericRow[] {
+        if (this.groups.size === 0 && this.groupBy.length === 0) {
+            // Aggregating without groups always returns a row
+            this.groups.set("", this.createGroup(Object.create(null)));
+        }
+
+        const results: GenericRow[] = [];
+
+        for (const group of this.groups.values()) {
+            const row = Object.assign(Object.create(null), group.values);
+
+            for (let i = 0; i < this.aggregations.length; i++) {
+                const aggregation = this.aggregations[i];
+                const state = group.states[i];
+
+                switch (aggregation.fn) {
+                case "count":
+                    row[aggregation.name] = state.count;
+                    break;
+                case "countDistinct":
+                    row[aggregation.name] = state.distinct.size;
+                    break;
+                case "sum":
+                    row[aggregation.name] = state.sum;
+                    break;
+                case "avg":
+                    row[aggregation.name] = state.count > 0 ? (state.sum / state.count) : null;
+                    break;
+                default:
+                    row[aggregation.name] = state.value;
+                }
+            }
+
+            results.push(row);
+        }
+
+        return results;
+    }
+
+    private createGroup(row: GenericRow): AggregationGroup {
+        const values = Object.create(null);
+        for (const field of this.groupBy) {
+            values[field] = row[field] === undefined ? null : row[field];
+        }
+        return {
+            values: values,
+            states: this.aggregations.map(() => {
+                return {
+                    count: 0,
+                    sum: 0,
+                    value: null,
+                    distinct: new Set<string>(),
+                };
+            }),
+        };
+    }
+}
+
+function getValueKey(value: GenericValue): string {
+    return JSON.stringify(value, function (key, v) {
+        if (this[key] instanceof Date) {
+            return { $date: this[key].getTime() };
+        }
+        if (typeof v === "bigint") {
+            return { $bigint: v.toString() };
+        }
+        if (v === undefined) {
+            return null;
+        }
+        return v;
+    });
+}
@@ -4,8 +4,12 @@
 "use strict";
 
 import { DataAccessObject, makeCopyOfObject } from "./dao";
-import { GenericRow, ModelKeyName } from "./common";
+import { GenericRow, GenericRowUpdate, ModelKeyName, StrictRowUpdate, UpsertResult } from "./common";
+import { DataModelHookEvent, DataSource } from "./data-source";
 import { DataFilter } from "./finder";
+import { getModelSchema, parseModelRow } from "./schema";
+import { Transaction } from "./transaction";
+import { validateModel, ValidationError } from "./validation";
 
 /**
  * Options to serialize a data model
@@ -30,18 +34,47 @@ export class DataModel {
 
     /**
      * Constructor
+     * If the data source, the table and the primary key are not specified,
+     * they are taken from the schema declared with decorators (@Table, @PrimaryKey).
+     * If a field is declared with @Version, optimistic locking is enabled.
+     * If a field is declared with @SoftDelete, soft delete is enabled.
+     * If fields are declared with @CreatedAt or @UpdatedAt, they are set automatically.
+     * If the class is declared with @DeepDiff, the changes of nested objects are saved as dotted paths.
      * @param source Name of the data source 
      * @param table Name of the table
      * @param primaryKey Name of the primary key
      */
-    constructor(source: string, table: string, primaryKey: string) {
+    constructor(source?: string, table?: string, primaryKey?: string) {
+        const schema = getModelSchema(new.target);
+        if (source === undefined && table === undefined) {
+            if (!schema || !schema.table) {
+                throw new Error("Cannot resolve the table of the data model " + new.target.name + ". Use the @Table decorator or pass the data source, table and primary key to the constructor.");
+            }
+            source = schema.source;
+            table = schema.table;
+            primaryKey = schema.primaryKey;
+        }
         this.dao = new DataAccessObject(source, table, primaryKey, {});
+        if (schema) {
+            this.dao.versionField = schema.version;
+            this.dao.softDeleteField = schema.softDelete;
+            this.dao.createdAtField = schema.createdAt;
+            this.dao.updatedAtField = schema.updatedAt;
+            this.dao.deepDiff = schema.deepDiff;
+        }
     }
 
     /**
      * Initializes the data access object.
+     * @param data Optional. Data to set the fields declared with the @Field decorator.
      */
-    public init() {
+    public init(data?: GenericRow) {
+        if (data) {
+            const schema = getModelSchema(this.constructor);
+            if (schema) {
+                Object.assign(this, parseModelRow(schema, data));
+            }
+        }
         this.dao.changeRef(this);
     }
 
@@ -59,44 +92,207 @@ export class DataModel {
     /**
      * Saves the changes of this model on the database.
      * @param condition Optional. Only saves if a condition is reached.
+     * @param transaction Optional. Transaction to use.
+     * @throws StaleObjectError if the model uses optimistic locking and the row was modified since it was loaded
      */
-    public async save(condition?: DataFilter<this>): Promise<boolean> {
+    public async save(condition?: DataFilter<this>, transaction?: Transaction): Promise<boolean> {
         if (this.dao.ref !== this) {
             throw new Error("You must call init() before using persistence methods.");
         }
-        return this.dao.save(condition);
+        let changes = this.dao.getChanges();
+        if (Object.keys(changes).length === 0) {
+            return false; // Nothing to update
+        }
+        await this.runHooks("beforeSave", changes, transaction);
+        changes = this.dao.getChanges(); // The hooks may change the model
+        await this.validate(Object.keys(changes));
+        const saved = await this.dao.save(condition, transaction);
+        if (saved) {
+            await this.runHooks("afterSave", changes, transaction);
+        }
+        return saved;
     }
 
     /**
-     * Deletes the model from the database
+     * Deletes the model from the database.
+     * If soft delete is enabled, sets the deletion timestamp instead.
+     * @param transaction Optional. Transaction to use.
      */
-    public async delete(): Promise<boolean> {
+    public async delete(transaction?: Transaction): Promise<boolean> {
         if (this.dao.ref !== this) {
             throw new Error("You must call init() before using persistence methods.");
         }
-        return this.dao.delete();
+        await this.runHooks("beforeDelete", {}, transaction);
+        const deleted = await this.dao.delete(transaction);
+        if (deleted) {
+            await this.runHooks("afterDelete", {}, transaction);
+        }
+        return deleted;
+    }
+
+    /**
+     * Deletes the model from the database, even if soft delete is enabled.
+     * @param transaction Optional. Transaction to use.
+     */
+    public async forceDelete(transaction?: Transaction): Promise<boolean> {
+        if (this.dao.ref !== this) {
+            throw new Error("You must call init() before using persistence methods.");
+        }
+        await this.runHooks("beforeDelete", {}, transaction);
+        const deleted = await this.dao.forceDelete(transaction);
+        if (deleted) {
+            await this.runHooks("afterDelete", {}, transaction);
+        }
+        return deleted;
+    }
+
+    /**
+     * Restores a soft-deleted model.
+     * @param transaction Optional. Transaction to use.
+     * @returns true if restored, false if the model was not found or not deleted
+     */
+    public async restore(transaction?: Transaction): Promise<boolean> {
+        if (this.dao.ref !== this) {
+            throw new Error("You must call init() before using persistence methods.");
+        }
+        return this.dao.restore(transaction);
     }
 
     /**
      * Inserts a new entry in the database.
+     * @param transaction Optional. Transaction to use.
+     */
+    public async insert(transaction?: Transaction) {
+        if (this.dao.ref !== this) {
+            throw new Error("You must call init() before using persistence methods.");
+        }
+        await this.runHooks("beforeInsert", {}, transaction);
+        await this.validate();
+        await this.dao.insert(transaction);
+        await this.runHooks("afterInsert", {}, transaction);
+    }
+
+    /**
+     * Inserts the model, or updates the existing row with the same keys (primary key or a set of unique fields).
+     * The model is validated before, but the lifecycle hooks are not called.
+     * If the row is updated, the fields of the model are reloaded from the stored row.
+     * If the driver does not support upserts natively, a non-atomic fallback is used (see DataAccessObject.upsert).
+     * @param keys Optional. Fields identifying the row. By default, the primary key.
+     * @param updated Optional. Updates to apply if the row exists (set, inc). By default, all the fields except the keys and the creation timestamp.
+     * @param transaction Optional. Transaction to use.
+     * @returns "inserted" or "updated"
      */
-    public async insert() {
+    public async upsert(keys?: ModelKeyName<this>[], updated?: StrictRowUpdate<this>, transaction?: Transaction): Promise<UpsertResult> {
         if (this.dao.ref !== this) {
             throw new Error("You must call init() before using persistence methods.");
         }
-        return this.dao.insert();
+        await this.validate();
+        return this.dao.upsert(keys, updated, transaction);
     }
 
     /**
      * Atomic increment
      * @param field The field to increment
      * @param inc The amount to increment
+     * @param transaction Optional. Transaction to use.
      */
-    public async increment(field: ModelKeyName<this>, inc: number) {
+    public async increment(field: ModelKeyName<this>, inc: number, transaction?: Transaction) {
         if (this.dao.ref !== this) {
             throw new Error("You must call init() before using persistence methods.");
         }
-        return this.dao.increment(field, inc);
+        return this.dao.increment(field, inc, transaction);
+    }
+
+    /**
+     * Validates the model, using the rules declared with decorators.
+     * Called by insert() for every field and by save() for the changed fields.
+     * @param fields Optional. Only validate these fields.
+     * @throws ValidationError listing every failed rule
+     */
+    public async validate(fields?: string[]): Promise<void> {
+        const failures = await validateModel(this, fields);
+        if (failures.length > 0) {
+            throw new ValidationError(failures);
+        }
+    }
+
+    // Lifecycle hooks
+
+    /**
+     * Called before the model is inserted.
+     * Throw an error to abort the insertion.
+     */
+    protected async beforeInsert(): Promise<void> {
+        return;
+    }
+
+    /**
+     * Called after the model is inserted.
+     */
+    protected async afterInsert(): Promise<void> {
+        return;
+    }
+
+    /**
+     * Called before the changes of the model are saved.
+     * Throw an error to abort the update.
+     * The model can be modified here, the changes are computed again after the hooks.
+     * @param changes The changed fields, with their new values
+     */
+    protected async beforeSave(changes: GenericRowUpdate): Promise<void> {
+        return;
+    }
+
+    /**
+     * Called after the changes of the model are saved.
+     * @param changes The saved fields, with their new values
+     */
+    protected async afterSave(changes: GenericRowUpdate): Promise<void> {
+        return;
+    }
+
+    /**
+     * Called before the model is deleted.
+     * Throw an error to abort the deletion.
+     */
+    protected async beforeDelete(): Promise<void> {
+        return;
+    }
+
+    /**
+     * Called after the model is deleted.
+     */
+    protected async afterDelete(): Promise<void> {
+        return;
+    }
+
+    private async runHooks(event: DataModelHookEvent, changes: GenericRowUpdate, transaction: Transaction): Promise<void> {
+        const ds = transaction ? transaction.dataSource : DataSource.get(this.dao.source);
+
+        switch (event) {
+        case "beforeInsert":
+            await this.beforeInsert();
+            break;
+        case "afterInsert":
+            await this.afterInsert();
+            break;
+        case "beforeSave":
+            await this.beforeSave(changes);
+            break;
+        case "afterSave":
+            await this.afterSave(changes);
+            break;
+        case "beforeDelete":
+            await this.beforeDelete();
+            break;
+        case "afterDelete":
+            await this.afterDelete();
+            break;
+        }
+
+        if (ds) {
+            await ds.runHooks(this.dao.table, event, this, changes);
+        }
     }
 
     /**
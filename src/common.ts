@@ -8,6 +8,37 @@
  */
 export type ModelKeyName<T> = { [K in keyof T]: T[K] extends Function ? never : K }[keyof T & string];
 
+/**
+ * Remaining nesting levels for field paths (ModelFieldPath)
+ */
+type FieldPathDepth = [never, 0, 1, 2, 3];
+
+/**
+ * Dotted paths of the nested properties of a value.
+ * Only plain objects are traversed (not arrays, dates, buffers or functions).
+ */
+type NestedFieldPath<V, D extends number> = [D] extends [never] ? never :
+    V extends Function | Date | RegExp | Uint8Array | any[] ? never :
+    V extends object ? { [K in keyof V & string]: V[K] extends Function ? never : (K | `${K}.${NestedFieldPath<NonNullable<V[K]>, FieldPathDepth[D]>}`) }[keyof V & string] :
+    never;
+
+/**
+ * String that must be the name of a property of the Model,
+ * or the dotted path of a nested property inside an object property (eg: "address.city").
+ * Nested paths are limited to 5 levels.
+ */
+export type ModelFieldPath<T> = ModelKeyName<T> | { [K in ModelKeyName<T>]: `${K}.${NestedFieldPath<NonNullable<T[K]>, 3>}` }[ModelKeyName<T>];
+
+/**
+ * Splits a field path into its parts.
+ * Drivers can use it to map nested paths (eg: "address.city") to their own syntax (JSON paths, etc).
+ * @param path The field path
+ * @returns The list of parts. The first one is the name of the field.
+ */
+export function splitFieldPath(path: string): string[] {
+    return path.split(".");
+}
+
 /**
  * A generic value for a primary key
  */
@@ -33,6 +64,31 @@ export type TypedRow<T> = { [K in keyof T]?: T[K] extends Function ? never : T[K
  */
 export type SortDirection = "asc" | "desc" | null;
 
+/**
+ * Placement of the null values when sorting
+ */
+export type NullsPlacement = "first" | "last";
+
+/**
+ * Sort key (one of the fields to sort by)
+ */
+export interface SortKey<T = string> {
+    /**
+     * Field to sort by
+     */
+    by: T;
+
+    /**
+     * Sort direction
+     */
+    dir: "asc" | "desc";
+
+    /**
+     * Placement of the null values. Leave undefined for the default of the data source.
+     */
+    nulls?: NullsPlacement;
+}
+
 /**
  * Comparing filtering operation
  * - eq = Equals
@@ -78,6 +134,72 @@ export interface FilterRegexOperation<T = string> {
     regexp: RegExp,
 }
 
+/**
+ * Not into filtering operation
+ * Checks if the value is not inside a list
+ */
+export interface FilterNotIntoOperation<T = string> {
+    operation: "nin",
+    key: T,
+    values: GenericKeyValue[],
+}
+
+/**
+ * Between filtering operation
+ * Checks if the value is within a range (both limits included)
+ */
+export interface FilterBetweenOperation<T = string> {
+    operation: "between",
+    key: T,
+    min: GenericKeyValue,
+    max: GenericKeyValue,
+}
+
+/**
+ * Array contains filtering operation
+ * - containsAny = The array contains at least one of the values
+ * - containsAll = The array contains all the values
+ */
+export interface FilterArrayContainsOperation<T = string> {
+    operation: "containsAny" | "containsAll",
+    key: T,
+    values: GenericKeyValue[],
+}
+
+/**
+ * Array size filtering operation
+ * Checks if the value is an array with an exact length
+ */
+export interface FilterArraySizeOperation<T = string> {
+    operation: "size",
+    key: T,
+    size: number,
+}
+
+/**
+ * Case insensitive equals filtering operation
+ * Checks if the value is a string equal to another one, ignoring case
+ */
+export interface FilterEqualsIgnoreCaseOperation<T = string> {
+    operation: "ieq",
+    key: T,
+    value: string,
+}
+
+/**
+ * Like filtering operation
+ * Checks if the value matches a wildcard pattern:
+ * - % matches any sequence of characters
+ * - _ matches a single character
+ * - A backslash escapes the next character
+ */
+export interface FilterLikeOperation<T = string> {
+    operation: "like",
+    key: T,
+    pattern: string,
+    ignoreCase: boolean,
+}
+
 /**
  * Groups multiple filters with the AND operator
  * All conditions must be satisfied
@@ -107,7 +229,14 @@ export interface FilterNotOperation {
 /**
  * Generic filtering operation (groups all filtering operations)
  */
-export type FilterOperation<T = string> = FilterAndOperation | FilterOrOperation | FilterNotOperation | FilterCompareOperation<T> | FilterRegexOperation<T> | FilterExistsOperation<T> | FilterIntoOperation<T>;
+export type FilterOperation<T = string> = FilterAndOperation | FilterOrOperation | FilterNotOperation | FilterCompareOperation<T> | FilterRegexOperation<T> | FilterExistsOperation<T> | FilterIntoOperation<T>
+    | FilterNotIntoOperation<T> | FilterBetweenOperation<T> | FilterArrayContainsOperation<T> | FilterArraySizeOperation<T> | FilterEqualsIgnoreCaseOperation<T> | FilterLikeOperation<T>;
+
+/**
+ * Name of a filtering operation that is not supported by every driver.
+ * Drivers must report the ones they support (see DataSourceDriverCapabilities).
+ */
+export type ExtendedFilterOperationName = "nin" | "between" | "containsAny" | "containsAll" | "size" | "ieq" | "like";
 
 /**
  * Represents a generic filter, given a key space
@@ -138,14 +267,220 @@ export interface RowUpdateIncrement {
 }
 
 /**
- * Generic row update (column keys as string, values can be primitives, RowUpdateSet or RowUpdateIncrement).
+ * Indicates the value must be removed (set to null)
+ */
+export interface RowUpdateUnset {
+    update: "unset",
+    value?: null,
+}
+
+/**
+ * Indicates the value must be multiplied
+ */
+export interface RowUpdateMultiply {
+    update: "mul",
+
+    /**
+     * Factor to multiply by
+     */
+    value: number,
+}
+
+/**
+ * Indicates the value must be replaced if the given value is lower (or the current value is null)
+ */
+export interface RowUpdateMin<V = GenericValue> {
+    update: "min",
+
+    /**
+     * Value to compare
+     */
+    value: V,
+}
+
+/**
+ * Indicates the value must be replaced if the given value is greater (or the current value is null)
+ */
+export interface RowUpdateMax<V = GenericValue> {
+    update: "max",
+
+    /**
+     * Value to compare
+     */
+    value: V,
+}
+
+/**
+ * Indicates the given items must be appended to the array
+ */
+export interface RowUpdatePush<E = GenericValue> {
+    update: "push",
+
+    /**
+     * Items to append
+     */
+    value: E[],
+}
+
+/**
+ * Indicates all the occurrences of the given items must be removed from the array
+ */
+export interface RowUpdatePull<E = GenericValue> {
+    update: "pull",
+
+    /**
+     * Items to remove
+     */
+    value: E[],
+}
+
+/**
+ * Indicates the given items must be appended to the array, only if not already present
+ */
+export interface RowUpdateAddToSet<E = GenericValue> {
+    update: "addToSet",
+
+    /**
+     * Items to add
+     */
+    value: E[],
+}
+
+/**
+ * Indicates the value must be set to the current date of the data source.
+ * The data access object replaces it with the date of the data source clock (DataSource.clock),
+ * so drivers only receive it when called directly.
+ */
+export interface RowUpdateCurrentDate {
+    update: "currentDate",
+    value?: null,
+}
+
+
+/**
+ * Change of a nested value of a field
  */
-export type GenericRowUpdate = { [key: string]: RowUpdateSet | RowUpdateIncrement | any };
+export interface RowUpdatePath {
+    /**
+     * Dotted path, starting with the name of the field (Example: "address.city")
+     */
+    path: string,
+
+    /**
+     * Value to store (ignored if unset = true)
+     */
+    value?: GenericValue,
+
+    /**
+     * True to remove the nested value
+     */
+    unset?: boolean,
+}
+
+/**
+ * Indicates nested values of the field must be changed.
+ * Drivers not supporting nested paths (see DataSourceDriverCapabilities) receive
+ * the full value of the field instead, replacing it.
+ */
+export interface RowUpdatePaths {
+    update: "paths",
+
+    /**
+     * Full new value of the field (for drivers not supporting nested paths)
+     */
+    value: GenericValue,
+
+    /**
+     * Changes of nested values
+     */
+    paths: RowUpdatePath[],
+}
+
+/**
+ * Any row update operation
+ */
+export type RowUpdateOperation = RowUpdateSet | RowUpdateIncrement | RowUpdateUnset | RowUpdateMultiply | RowUpdateMin | RowUpdateMax | RowUpdatePush | RowUpdatePull | RowUpdateAddToSet | RowUpdateCurrentDate | RowUpdatePaths;
+
+/**
+ * Kind of row update operation
+ */
+export type RowUpdateKind = RowUpdateOperation["update"];
+
+/**
+ * Row update operations allowed for a field, given the type of the field:
+ * - Any field: set, unset, min, max, paths
+ * - Numeric fields: inc, mul
+ * - Array fields: push, pull, addToSet
+ * - Date fields: currentDate
+ */
+export type TypedRowUpdateOperation<V> = RowUpdateSet | RowUpdateUnset | RowUpdateMin<V> | RowUpdateMax<V> | RowUpdatePaths
+    | (V extends number | bigint ? RowUpdateIncrement | RowUpdateMultiply : never)
+    | (V extends (infer E)[] ? RowUpdatePush<E> | RowUpdatePull<E> | RowUpdateAddToSet<E> : never)
+    | (V extends Date ? RowUpdateCurrentDate : never);
+
+/**
+ * Generic row update (column keys as string, values can be primitives or row update operations).
+ */
+export type GenericRowUpdate = { [key: string]: RowUpdateOperation | any };
 
 /**
  * Strict row update. Given a data model, specify the new values for each one of the fields that must be updated.
+ * The row update operations are checked against the type of each field.
+ */
+export type StrictRowUpdate<T> = { [key in keyof T]?: T[key] | TypedRowUpdateOperation<T[key]> };
+
+/**
+ * Aggregation function
+ * - count = Number of rows
+ * - countDistinct = Number of distinct non-null values of the field
+ * - sum = Summation of the field
+ * - avg = Average of the field (non-null values)
+ * - min = Minimum value of the field
+ * - max = Maximum value of the field
+ */
+export type AggregationFunction = "count" | "countDistinct" | "sum" | "avg" | "min" | "max";
+
+/**
+ * Aggregation column
  */
-export type StrictRowUpdate<T> = { [key in keyof T]?: RowUpdateSet | RowUpdateIncrement | any };
+export interface AggregationColumn<T = string> {
+    /**
+     * Name of the column in the results
+     */
+    name: string;
+
+    /**
+     * Aggregation function
+     */
+    fn: AggregationFunction;
+
+    /**
+     * Field to aggregate (null for count)
+     */
+    field: T;
+}
+
+/**
+ * Result of an upsert
+ * - inserted = The row did not exist, so it was inserted
+ * - updated = The row existed, so it was updated
+ */
+export type UpsertResult = "inserted" | "updated";
+
+/**
+ * Result of upserting many rows
+ */
+export interface UpsertManyResult {
+    /**
+     * Number of inserted rows
+     */
+    inserted: number;
+
+    /**
+     * Number of updated rows
+     */
+    updated: number;
+}
 
 
 /**
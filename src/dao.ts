@@ -3,10 +3,48 @@
 
 "use strict";
 
-import { GenericKeyValue, GenericRow, GenericFilter, SortDirection, GenericRowUpdate } from "./common";
+import { Aggregator } from "./aggregation";
+import { GenericKeyValue, GenericRow, GenericFilter, SortDirection, GenericRowUpdate, AggregationColumn, GenericValue, UpsertResult, RowUpdatePath } from "./common";
 import { DataSource } from "./data-source";
-import { DataSourceDriver, QueryExtraOptions } from "./data-source-driver";
+import { DataSourceDriver, DataSourceDriverCapabilities, QueryExtraOptions } from "./data-source-driver";
 import { DataFilter } from "./finder";
+import { isContradiction, normalizeFilter } from "./filter-normalizer";
+import { Transaction } from "./transaction";
+
+/**
+ * Error thrown when saving a data model with optimistic locking,
+ * if the row was modified or deleted since the model was loaded.
+ */
+export class StaleObjectError extends Error {
+    /**
+     * Name of the table
+     */
+    public table: string;
+
+    /**
+     * Value of the primary key
+     */
+    public key: GenericKeyValue;
+
+    /**
+     * Expected value of the version field
+     */
+    public version: GenericValue;
+
+    /**
+     * Constructor
+     * @param table Name of the table
+     * @param key Value of the primary key
+     * @param version Expected value of the version field
+     */
+    constructor(table: string, key: GenericKeyValue, version: GenericValue) {
+        super("Stale object: The row " + key + " of " + table + " was modified or deleted since it was loaded (expected version " + version + ").");
+        this.name = "StaleObjectError";
+        this.table = table;
+        this.key = key;
+        this.version = version;
+    }
+}
 
 /**
  * Data Access object.
@@ -16,29 +54,62 @@ export class DataAccessObject {
     /**
      * Resolves and returns the current database driver.
      * @param s The name of the data source
+     * @param transaction The transaction (optional). If set, the driver bound to the transaction is returned.
+     * The transaction must have been started by the same data source (same name, or registered with that name).
      * @returns The driver
      */
-    public static getDriver(s: string): DataSourceDriver {
+    public static getDriver(s: string, transaction?: Transaction): DataSourceDriver {
+        if (transaction) {
+            if (transaction.isFinished()) {
+                throw new Error("Cannot use a transaction that is already finished.");
+            }
+            if (transaction.dataSource.name !== s && DataSource.get(s) !== transaction.dataSource) {
+                throw new Error("Cannot use a transaction of the data source " + transaction.dataSource.name + " with the data source " + s + ".");
+            }
+            return transaction.driver;
+        }
         const ds = DataSource.get(s);
         if (ds) {
-            return ds.driver;
+            return ds.getDriver();
         } else {
             throw new Error("Could not find data source: " + s);
         }
     }
 
+    /**
+     * Gets the optional features supported by the driver of a data source
+     * @param s The name of the data source
+     * @param transaction The transaction (optional). If set, the driver bound to the transaction is used.
+     * @returns The capabilities
+     */
+    public static getCapabilities(s: string, transaction?: Transaction): DataSourceDriverCapabilities {
+        return getDriverCapabilities(DataAccessObject.getDriver(s, transaction));
+    }
+
+    /**
+     * Gets the current date, using the clock of the data source
+     * @param s The name of the data source
+     * @param transaction The transaction (optional). If set, the data source of the transaction is used.
+     * @returns The current date
+     */
+    public static getCurrentDate(s: string, transaction?: Transaction): Date {
+        const ds = transaction ? transaction.dataSource : DataSource.get(s);
+        return ds ? ds.clock() : new Date();
+    }
+
     /**
      * Finds by primary key
      * @param source Data source name
      * @param table Table name
      * @param keyName Key name
      * @param keyValue Key value
+     * @param transaction Optional. Transaction to use.
      */
-    public static async findByKey(source: string, table: string, keyName: string, keyValue: GenericKeyValue): Promise<GenericRow> {
+    public static async findByKey(source: string, table: string, keyName: string, keyValue: GenericKeyValue, transaction?: Transaction): Promise<GenericRow> {
         if (keyValue === null || keyValue === undefined) {
             return null;
         }
-        return DataAccessObject.getDriver(source).findByKey(table, keyName, keyValue);
+        return DataAccessObject.getDriver(source, transaction).findByKey(table, keyName, keyValue);
     }
 
     /**
@@ -52,9 +123,15 @@ export class DataAccessObject {
      * @param limit Limit of results. Leave as -1 for no limit
      * @param projection List of fields to fetch from the table. Leave as null to fetch them all.
      * @param queryExtraOptions Additional query options
+     * @param transaction Optional. Transaction to use.
      */
-    public static async find(source: string, table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions): Promise<GenericRow[]> {
-        return DataAccessObject.getDriver(source).find(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions);
+    public static async find(source: string, table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, transaction?: Transaction): Promise<GenericRow[]> {
+        filter = normalizeFilter(filter);
+        const driver = checkSortSupport(source, getFilterDriver(source, filter, transaction), queryExtraOptions);
+        if (isContradiction(filter)) {
+            return [];
+        }
+        return driver.find(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions);
     }
 
     /**
@@ -69,9 +146,15 @@ export class DataAccessObject {
      * @param projection List of fields to fetch from the table. Leave as null to fetch them all. 
      * @param queryExtraOptions Additional query options
      * @param each Function to parse each row
+     * @param transaction Optional. Transaction to use.
      */
-    public static async findStream(source: string, table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, each: (row: GenericRow) => Promise<void>): Promise<void> {
-        return DataAccessObject.getDriver(source).findStream(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions, each);
+    public static async findStream(source: string, table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, each: (row: GenericRow) => Promise<void>, transaction?: Transaction): Promise<void> {
+        filter = normalizeFilter(filter);
+        const driver = checkSortSupport(source, getFilterDriver(source, filter, transaction), queryExtraOptions);
+        if (isContradiction(filter)) {
+            return;
+        }
+        return driver.findStream(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions, each);
     }
 
     /**
@@ -86,9 +169,15 @@ export class DataAccessObject {
      * @param projection List of fields to fetch from the table. Leave as null to fetch them all. 
      * @param queryExtraOptions Additional query options
      * @param each Function to parse each row
+     * @param transaction Optional. Transaction to use.
      */
-    public static async findStreamSync(source: string, table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, each: (row: GenericRow) => void): Promise<void> {
-        return DataAccessObject.getDriver(source).findStreamSync(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions, each);
+    public static async findStreamSync(source: string, table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, each: (row: GenericRow) => void, transaction?: Transaction): Promise<void> {
+        filter = normalizeFilter(filter);
+        const driver = checkSortSupport(source, getFilterDriver(source, filter, transaction), queryExtraOptions);
+        if (isContradiction(filter)) {
+            return;
+        }
+        return driver.findStreamSync(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions, each);
     }
 
     /**
@@ -97,9 +186,15 @@ export class DataAccessObject {
      * @param table Table name
      * @param filter Filter to apply
      * @param queryExtraOptions Additional query options
+     * @param transaction Optional. Transaction to use.
      */
-    public static async count(source: string, table: string, filter: GenericFilter, queryExtraOptions: QueryExtraOptions): Promise<number> {
-        return DataAccessObject.getDriver(source).count(table, filter, queryExtraOptions);
+    public static async count(source: string, table: string, filter: GenericFilter, queryExtraOptions: QueryExtraOptions, transaction?: Transaction): Promise<number> {
+        filter = normalizeFilter(filter);
+        const driver = getFilterDriver(source, filter, transaction);
+        if (isContradiction(filter)) {
+            return 0;
+        }
+        return driver.count(table, filter, queryExtraOptions);
     }
 
     /**
@@ -109,9 +204,43 @@ export class DataAccessObject {
      * @param filter Filter to apply
      * @param id Primary Key name
      * @param field Field to aggregate
+     * @param transaction Optional. Transaction to use.
      */
-    public static async sum(source: string, table: string, filter: GenericFilter, id: string, field: string): Promise<number> {
-        return DataAccessObject.getDriver(source).sum(table, filter, id, field);
+    public static async sum(source: string, table: string, filter: GenericFilter, id: string, field: string, transaction?: Transaction): Promise<number> {
+        filter = normalizeFilter(filter);
+        const driver = getFilterDriver(source, filter, transaction);
+        if (isContradiction(filter)) {
+            return 0;
+        }
+        return driver.sum(table, filter, id, field);
+    }
+
+    /**
+     * Aggregation (grouped)
+     * If the driver does not implement aggregations, they are computed with findStream.
+     * @param source Data source name
+     * @param table Table name
+     * @param filter Filter to apply
+     * @param groupBy Fields to group by
+     * @param aggregations Aggregation columns
+     * @param queryExtraOptions Additional query options
+     * @param transaction Optional. Transaction to use.
+     */
+    public static async aggregate(source: string, table: string, filter: GenericFilter, groupBy: string[], aggregations: AggregationColumn[], queryExtraOptions: QueryExtraOptions, transaction?: Transaction): Promise<GenericRow[]> {
+        filter = normalizeFilter(filter);
+        const driver = getFilterDriver(source, filter, transaction);
+        const aggregator = new Aggregator(groupBy, aggregations);
+        if (isContradiction(filter)) {
+            return aggregator.getResults();
+        }
+        if (driver.aggregate) {
+            return driver.aggregate(table, filter, groupBy, aggregations, queryExtraOptions);
+        }
+        const fields = aggregator.getRequiredFields();
+        await driver.findStream(table, filter, null, null, -1, -1, fields.size > 0 ? fields : null, queryExtraOptions, async row => {
+            aggregator.add(row);
+        });
+        return aggregator.getResults();
     }
 
     /**
@@ -119,9 +248,10 @@ export class DataAccessObject {
      * @param source Data source name
      * @param table Table name
      * @param row Row to insert
+     * @param transaction Optional. Transaction to use.
      */
-    public static async insertInstance(source: string, table: string, row: GenericRow) {
-        return DataAccessObject.getDriver(source).insert(table, makeCopyOfObject(row), null);
+    public static async insertInstance(source: string, table: string, row: GenericRow, transaction?: Transaction) {
+        return DataAccessObject.getDriver(source, transaction).insert(table, makeCopyOfObject(row), null);
     }
 
     /**
@@ -129,9 +259,68 @@ export class DataAccessObject {
      * @param source Data source name
      * @param table Table name
      * @param rows Rows to insert
+     * @param transaction Optional. Transaction to use.
+     */
+    public static async insertInstances(source: string, table: string, rows: GenericRow[], transaction?: Transaction) {
+        return DataAccessObject.getDriver(source, transaction).batchInsert(table, makeCopyOfObject(rows));
+    }
+
+    /**
+     * Inserts a row, or updates it if a row with the same keys already exists.
+     * If the driver does not support upserts natively, a fallback is used:
+     * the row is updated, and inserted only if no rows were affected.
+     * The fallback is NOT atomic: If a concurrent insert makes the insertion fail
+     * (duplicated key), the update is retried once.
+     * @param source Data source name
+     * @param table Table name
+     * @param keys Fields identifying the row (the primary key or a set of unique fields)
+     * @param row Row to insert if it does not exist
+     * @param updated Updates to apply if the row exists. Leave empty to keep the existing row unchanged.
+     * @param transaction Optional. Transaction to use.
+     * @returns "inserted" or "updated"
      */
-    public static async insertInstances(source: string, table: string, rows: GenericRow[]) {
-        return DataAccessObject.getDriver(source).batchInsert(table, makeCopyOfObject(rows));
+    public static async upsert(source: string, table: string, keys: string[], row: GenericRow, updated: GenericRowUpdate, transaction?: Transaction): Promise<UpsertResult> {
+        if (keys.length === 0) {
+            throw new Error("Cannot upsert: At least one key field is required.");
+        }
+
+        const driver = DataAccessObject.getDriver(source, transaction);
+
+        updated = resolveCurrentDates(source, updated, transaction);
+
+        if (driver.upsert) {
+            return driver.upsert(table, keys, makeCopyOfObject(row), resolveUpdatePaths(driver, updated));
+        }
+
+        const filter: GenericFilter = {
+            operation: "and",
+            children: keys.map(key => {
+                return { operation: "eq", key: key, value: row[key] };
+            }),
+        };
+
+        const tryUpdate = async (): Promise<boolean> => {
+            if (Object.keys(updated).length === 0) {
+                return (await DataAccessObject.count(source, table, filter, {}, transaction)) > 0;
+            }
+            return (await DataAccessObject.updateMany(source, table, filter, updated, transaction)) > 0;
+        };
+
+        if (await tryUpdate()) {
+            return "updated";
+        }
+
+        try {
+            await driver.insert(table, makeCopyOfObject(row), null);
+        } catch (ex) {
+            // The row may have been inserted concurrently
+            if (await tryUpdate()) {
+                return "updated";
+            }
+            throw ex;
+        }
+
+        return "inserted";
     }
 
     /**
@@ -139,9 +328,15 @@ export class DataAccessObject {
      * @param source Data source name
      * @param table Table name
      * @param filter Filter to apply
+     * @param transaction Optional. Transaction to use.
      */
-    public static async deleteMany(source: string, table: string, filter: GenericFilter): Promise<number> {
-        return DataAccessObject.getDriver(source).deleteMany(table, filter);
+    public static async deleteMany(source: string, table: string, filter: GenericFilter, transaction?: Transaction): Promise<number> {
+        filter = normalizeFilter(filter);
+        const driver = getFilterDriver(source, filter, transaction);
+        if (isContradiction(filter)) {
+            return 0;
+        }
+        return driver.deleteMany(table, filter);
     }
 
     /**
@@ -150,9 +345,15 @@ export class DataAccessObject {
      * @param table Table name
      * @param filter Filter to apply
      * @param updated Updated row
+     * @param transaction Optional. Transaction to use.
      */
-    public static async updateMany(source: string, table: string, filter: GenericFilter, updated: GenericRowUpdate): Promise<number> {
-        return DataAccessObject.getDriver(source).updateMany(table, filter, updated);
+    public static async updateMany(source: string, table: string, filter: GenericFilter, updated: GenericRowUpdate, transaction?: Transaction): Promise<number> {
+        filter = normalizeFilter(filter);
+        const driver = getFilterDriver(source, filter, transaction);
+        if (isContradiction(filter)) {
+            return 0;
+        }
+        return driver.updateMany(table, filter, resolveUpdatePaths(driver, resolveCurrentDates(source, updated, transaction)));
     }
 
     /**
@@ -163,15 +364,42 @@ export class DataAccessObject {
      * @param keyValue Key value
      * @param prop Field to increment
      * @param inc Amount to increment
+     * @param transaction Optional. Transaction to use.
      */
-    public static async increment(source: string, table: string, keyName: string, keyValue: GenericKeyValue, prop: string, inc: number): Promise<void> {
-        return DataAccessObject.getDriver(source).increment(table, keyName, keyValue, prop, inc);
+    public static async increment(source: string, table: string, keyName: string, keyValue: GenericKeyValue, prop: string, inc: number, transaction?: Transaction): Promise<void> {
+        await DataAccessObject.getDriver(source, transaction).increment(table, keyName, keyValue, prop, inc);
     }
 
     public source: string;
     public table: string;
     public pk: string;
 
+    /**
+     * Name of the version field, for optimistic locking (empty if not used)
+     */
+    public versionField: string;
+
+    /**
+     * Name of the deletion timestamp field, for soft delete (empty if not used)
+     */
+    public softDeleteField: string;
+
+    /**
+     * Name of the creation timestamp field (empty if not used)
+     */
+    public createdAtField: string;
+
+    /**
+     * Name of the update timestamp field (empty if not used)
+     */
+    public updatedAtField: string;
+
+    /**
+     * True to compute the changes of nested objects as dotted paths (see RowUpdatePaths),
+     * instead of replacing the full value of the changed fields.
+     */
+    public deepDiff: boolean;
+
     public original: any;
     public ref: any;
 
@@ -186,6 +414,11 @@ export class DataAccessObject {
         this.source = source;
         this.table = table;
         this.pk = pk;
+        this.versionField = "";
+        this.softDeleteField = "";
+        this.createdAtField = "";
+        this.updatedAtField = "";
+        this.deepDiff = false;
         this.original = makeCopyOfObject(row);
         this.ref = row;
     }
@@ -195,12 +428,36 @@ export class DataAccessObject {
         this.ref = row;
     }
 
+    /**
+     * Computes the changes of the document since it was loaded or last saved.
+     * If deepDiff is enabled, the changes of nested objects are represented with RowUpdatePaths.
+     * @returns The changed fields, with their new values
+     */
+    public getChanges(): GenericRowUpdate {
+        if (this.deepDiff) {
+            return deepObjectDifference(this.original, this.ref);
+        }
+        return firstLevelObjectDifference(this.original, this.ref);
+    }
+
     /**
      * Inserts the document.
+     * @param transaction Optional. Transaction to use.
      */
-    public async insert(): Promise<void> {
+    public async insert(transaction?: Transaction): Promise<void> {
+        if (this.versionField && (this.ref[this.versionField] === null || this.ref[this.versionField] === undefined)) {
+            this.ref[this.versionField] = 1;
+        }
+        if (this.createdAtField || this.updatedAtField) {
+            const now = DataAccessObject.getCurrentDate(this.source, transaction);
+            for (const field of [this.createdAtField, this.updatedAtField]) {
+                if (field && (this.ref[field] === null || this.ref[field] === undefined)) {
+                    this.ref[field] = now;
+                }
+            }
+        }
         try {
-            await DataAccessObject.getDriver(this.source).insert(this.table, makeCopyOfObject(this.ref), this.pk, function (keyVal) {
+            await DataAccessObject.getDriver(this.source, transaction).insert(this.table, makeCopyOfObject(this.ref), this.pk, function (keyVal) {
                 this.ref[this.pk] = keyVal;
             }.bind(this));
         } catch (ex) {
@@ -213,23 +470,31 @@ export class DataAccessObject {
     /**
      * Saves the document changes.
      * @param condition Optional. Condition to check before updating.
+     * @param transaction Optional. Transaction to use.
      * @returns True if saved, false if not saved
      */
-    public async save(condition?: DataFilter): Promise<boolean> {
+    public async save(condition?: DataFilter, transaction?: Transaction): Promise<boolean> {
         if (!this.pk) {
             throw new Error("Cannot update: A primary key is not set for this data model. Use a Finder instead.");
         }
         let res = true;
         try {
-            const diff = firstLevelObjectDifference(this.original, this.ref);
+            let diff = this.getChanges();
             if (Object.keys(diff).length === 0) {
                 return Promise.resolve(false); // Nothing to update
             }
-            if (condition) {
-                const affected = await DataAccessObject.getDriver(this.source).updateMany(this.table, DataFilter.and(DataFilter.equals(this.pk, this.ref[this.pk]), condition).query, diff);
+            diff = resolveUpdatePaths(DataAccessObject.getDriver(this.source, transaction), diff);
+            if (this.updatedAtField) {
+                this.ref[this.updatedAtField] = DataAccessObject.getCurrentDate(this.source, transaction);
+                diff[this.updatedAtField] = this.ref[this.updatedAtField];
+            }
+            if (this.versionField) {
+                res = await this.saveVersioned(diff, condition, transaction);
+            } else if (condition) {
+                const affected = await DataAccessObject.updateMany(this.source, this.table, DataFilter.and(DataFilter.equals(this.pk, this.ref[this.pk]), condition).query, diff, transaction);
                 res = affected > 0;
             } else {
-                await DataAccessObject.getDriver(this.source).update(this.table, this.pk, this.original[this.pk], diff);
+                await DataAccessObject.getDriver(this.source, transaction).update(this.table, this.pk, this.original[this.pk], diff);
             }
         } catch (ex) {
             return Promise.reject(ex);
@@ -240,27 +505,167 @@ export class DataAccessObject {
         return Promise.resolve(res);
     }
 
+    private async saveVersioned(diff: GenericRowUpdate, condition: DataFilter, transaction: Transaction): Promise<boolean> {
+        const version = this.original[this.versionField];
+        const nextVersion = (version === null || version === undefined) ? 1 : (typeof version === "bigint" ? version + BigInt(1) : version + 1);
+
+        diff[this.versionField] = nextVersion;
+
+        const versionFilter = DataFilter.and(DataFilter.equals(this.pk, this.original[this.pk]), DataFilter.equals(this.versionField, version));
+        const affected = await DataAccessObject.updateMany(this.source, this.table, (condition ? DataFilter.and(versionFilter, condition) : versionFilter).query, diff, transaction);
+
+        if (affected === 0) {
+            if (condition && (await DataAccessObject.count(this.source, this.table, versionFilter.query, {}, transaction)) > 0) {
+                return false; // The condition was not reached
+            }
+            throw new StaleObjectError(this.table, this.original[this.pk], version);
+        }
+
+        this.ref[this.versionField] = nextVersion;
+
+        return true;
+    }
+
+    /**
+     * Inserts the document, or updates the existing row with the same keys.
+     * The version and the timestamps are set as in insert() and save().
+     * @param keys Fields identifying the row. By default, the primary key.
+     * @param updated Optional. Updates to apply if the row exists. By default, all the fields except the keys and the creation timestamp.
+     * @param transaction Optional. Transaction to use.
+     * @returns "inserted" or "updated"
+     */
+    public async upsert(keys?: string[], updated?: GenericRowUpdate, transaction?: Transaction): Promise<UpsertResult> {
+        keys = (keys && keys.length > 0) ? keys : (this.pk ? [this.pk] : []);
+
+        if (keys.length === 0) {
+            throw new Error("Cannot upsert: A primary key is not set for this data model. Specify the key fields.");
+        }
+
+        const now = (this.createdAtField || this.updatedAtField) ? DataAccessObject.getCurrentDate(this.source, transaction) : null;
+
+        for (const field of [this.createdAtField, this.updatedAtField]) {
+            if (field && (this.ref[field] === null || this.ref[field] === undefined)) {
+                this.ref[field] = now;
+            }
+        }
+
+        if (this.versionField && (this.ref[this.versionField] === null || this.ref[this.versionField] === undefined)) {
+            this.ref[this.versionField] = 1;
+        }
+
+        const row = makeCopyOfObject(this.ref);
+
+        if (updated) {
+            updated = Object.assign({}, updated);
+        } else {
+            updated = {};
+            for (const field of Object.keys(row)) {
+                if (!keys.includes(field) && field !== this.pk && field !== this.createdAtField && field !== this.versionField) {
+                    updated[field] = row[field];
+                }
+            }
+        }
+
+        if (this.updatedAtField && !(this.updatedAtField in updated)) {
+            updated[this.updatedAtField] = now;
+        }
+
+        if (this.versionField && !(this.versionField in updated)) {
+            updated[this.versionField] = { update: "inc", value: 1 };
+        }
+
+        const result = await DataAccessObject.upsert(this.source, this.table, keys, row, updated, transaction);
+
+        if (result === "updated") {
+            // The stored row may differ from the model (version, increments, fields excluded from the update)
+            const filter: GenericFilter = {
+                operation: "and",
+                children: keys.map(key => {
+                    return { operation: "eq", key: key, value: row[key] };
+                }),
+            };
+            const stored = (await DataAccessObject.find(this.source, this.table, filter, null, null, -1, 1, null, {}, transaction))[0];
+            if (stored) {
+                for (const field of Object.keys(row)) {
+                    if (field in stored) {
+                        this.ref[field] = makeCopyOfObject(stored[field]);
+                    }
+                }
+            }
+        }
+
+        this.original = makeCopyOfObject(this.ref); // Reset original
+
+        return result;
+    }
+
     /**
      * Deletes the document.
+     * If soft delete is enabled, sets the deletion timestamp instead.
+     * @param transaction Optional. Transaction to use.
+     * @returns True if deleted, false if not deleted
+     */
+    public async delete(transaction?: Transaction): Promise<boolean> {
+        if (!this.pk) {
+            throw new Error("Cannot delete: A primary key is not set for this data model. Use a finder instead.");
+        }
+        if (this.softDeleteField) {
+            return this.setDeletionTimestamp(DataAccessObject.getCurrentDate(this.source, transaction), transaction);
+        }
+        return DataAccessObject.getDriver(this.source, transaction).delete(this.table, this.pk, this.original[this.pk]);
+    }
+
+    /**
+     * Deletes the document, even if soft delete is enabled.
+     * @param transaction Optional. Transaction to use.
      * @returns True if deleted, false if not deleted
      */
-    public async delete(): Promise<boolean> {
+    public async forceDelete(transaction?: Transaction): Promise<boolean> {
         if (!this.pk) {
             throw new Error("Cannot delete: A primary key is not set for this data model. Use a finder instead.");
         }
-        return DataAccessObject.getDriver(this.source).delete(this.table, this.pk, this.original[this.pk]);
+        return DataAccessObject.getDriver(this.source, transaction).delete(this.table, this.pk, this.original[this.pk]);
+    }
+
+    /**
+     * Restores a soft-deleted document.
+     * @param transaction Optional. Transaction to use.
+     * @returns True if restored, false if not restored (not found or not deleted)
+     */
+    public async restore(transaction?: Transaction): Promise<boolean> {
+        if (!this.pk) {
+            throw new Error("Cannot restore: A primary key is not set for this data model. Use a finder instead.");
+        }
+        if (!this.softDeleteField) {
+            throw new Error("Cannot restore: Soft delete is not enabled for this data model.");
+        }
+        return this.setDeletionTimestamp(null, transaction);
+    }
+
+    private async setDeletionTimestamp(date: Date, transaction: Transaction): Promise<boolean> {
+        // Only rows in the opposite state are updated
+        const filter = DataFilter.and(DataFilter.equals(this.pk, this.original[this.pk]), date ? DataFilter.isNull(this.softDeleteField) : DataFilter.isNotNull(this.softDeleteField));
+        const update: GenericRowUpdate = {};
+        update[this.softDeleteField] = date;
+        const affected = await DataAccessObject.updateMany(this.source, this.table, filter.query, update, transaction);
+        if (affected > 0) {
+            this.ref[this.softDeleteField] = date;
+            this.original[this.softDeleteField] = date;
+        }
+        return affected > 0;
     }
 
     /**
      * Atomic increment
      * @param field Name of the field
      * @param inc Amount to increment
+     * @param transaction Optional. Transaction to use.
      */
-    public async increment(field: string, inc: number): Promise<void> {
+    public async increment(field: string, inc: number, transaction?: Transaction): Promise<void> {
         if (!this.pk) {
             throw new Error("Cannot update: A primary key is not set for this data model. Use a finder instead.");
         }
-        return DataAccessObject.getDriver(this.source).increment(this.table, this.pk, this.original[this.pk], field, inc);
+        return DataAccessObject.increment(this.source, this.table, this.pk, this.original[this.pk], field, inc, transaction);
     }
 }
 
@@ -383,6 +788,184 @@ function isEqualsRecursive(o1: any, o2: any): boolean {
     }
 }
 
+function getDriverCapabilities(driver: DataSourceDriver): DataSourceDriverCapabilities {
+    return driver.getCapabilities ? (driver.getCapabilities() || {}) : {};
+}
+
+const BASIC_FILTER_OPERATIONS = new Set(["and", "or", "not", "eq", "ne", "gt", "gte", "lt", "lte", "exists", "in", "regex"]);
+
+/**
+ * Gets the driver of a data source, checking it supports all the operations of a filter
+ * @param source The data source name
+ * @param filter The filter
+ * @param transaction The transaction (optional)
+ * @returns The driver
+ */
+function getFilterDriver(source: string, filter: GenericFilter, transaction?: Transaction): DataSourceDriver {
+    const driver = DataAccessObject.getDriver(source, transaction);
+    const operation = findUnsupportedFilterOperation(filter, new Set(getDriverCapabilities(driver).filterOperations || []));
+    if (operation) {
+        throw new Error("The driver of the data source '" + source + "' does not support the filtering operation: " + operation);
+    }
+    return driver;
+}
+
+/**
+ * Checks the driver supports the sort keys of a query
+ * @param source The data source name
+ * @param driver The driver
+ * @param queryExtraOptions The query options
+ * @returns The driver
+ */
+function checkSortSupport(source: string, driver: DataSourceDriver, queryExtraOptions: QueryExtraOptions): DataSourceDriver {
+    const sort = queryExtraOptions ? queryExtraOptions.sort : null;
+    if (sort && (sort.length > 1 || sort.some(key => !!key.nulls)) && !getDriverCapabilities(driver).sortKeys) {
+        throw new Error("The driver of the data source '" + source + "' does not support sorting by multiple fields or setting the placement of null values.");
+    }
+    return driver;
+}
+
+function findUnsupportedFilterOperation(filter: GenericFilter, supported: Set<string>): string {
+    if (!filter) {
+        return null;
+    }
+
+    switch (filter.operation) {
+    case "and":
+    case "or":
+        for (const child of filter.children) {
+            const operation = findUnsupportedFilterOperation(child, supported);
+            if (operation) {
+                return operation;
+            }
+        }
+        return null;
+    case "not":
+        return findUnsupportedFilterOperation(filter.child, supported);
+    default:
+        if (BASIC_FILTER_OPERATIONS.has(filter.operation) || supported.has(filter.operation)) {
+            return null;
+        }
+        return filter.operation;
+    }
+}
+
+/**
+ * Replaces the changes of nested values (RowUpdatePaths) with the full value of the field,
+ * if the driver does not support them.
+ * @param driver The driver
+ * @param updated The update
+ * @returns The update for the driver
+ */
+function resolveUpdatePaths(driver: DataSourceDriver, updated: GenericRowUpdate): GenericRowUpdate {
+    const keys = Object.keys(updated);
+
+    if (!keys.some(key => isUpdatePaths(updated[key])) || getDriverCapabilities(driver).updatePaths) {
+        return updated;
+    }
+
+    const result: GenericRowUpdate = Object.create(null);
+
+    for (const key of keys) {
+        result[key] = isUpdatePaths(updated[key]) ? updated[key].value : updated[key];
+    }
+
+    return result;
+}
+
+/**
+ * Replaces the currentDate operations of an update with the current date of the data source (see DataSource.clock)
+ * @param source The data source name
+ * @param updated The update
+ * @param transaction The transaction (optional)
+ * @returns The update for the driver
+ */
+function resolveCurrentDates(source: string, updated: GenericRowUpdate, transaction?: Transaction): GenericRowUpdate {
+    const keys = Object.keys(updated);
+
+    if (!keys.some(key => isCurrentDate(updated[key]))) {
+        return updated;
+    }
+
+    const now = DataAccessObject.getCurrentDate(source, transaction);
+    const result: GenericRowUpdate = Object.create(null);
+
+    for (const key of keys) {
+        result[key] = isCurrentDate(updated[key]) ? now : updated[key];
+    }
+
+    return result;
+}
+
+function isCurrentDate(value: any): boolean {
+    return typeof value === "object" && value !== null && value.update === "currentDate";
+}
+
+function isUpdatePaths(value: any): boolean {
+    return typeof value === "object" && value !== null && value.update === "paths" && value.paths instanceof Array;
+}
+
+/**
+ * Finds the changes between two rows, representing the changes of nested objects with RowUpdatePaths.
+ * Arrays (top-level or nested) are not compared by index: a changed array is always replaced as a whole.
+ * @param original Original row
+ * @param changed Changed row
+ * @returns The changed fields
+ */
+function deepObjectDifference(original: any, changed: any): any {
+    const changes = firstLevelObjectDifference(original, changed);
+    for (const key of Object.keys(changes)) {
+        if (getType(original[key]) !== "object" || getType(changes[key]) !== "object") {
+            continue; // Full replacement
+        }
+        const paths: RowUpdatePath[] = [];
+        if (collectPathDifferences(key, original[key], changes[key], paths)) {
+            changes[key] = { update: "paths", value: changes[key], paths: paths };
+        }
+    }
+    return changes;
+}
+
+/**
+ * Finds the changes between two objects, as dotted paths
+ * @param prefix Path of the objects
+ * @param o1 Original object
+ * @param o2 Changed object
+ * @param paths List to add the changes
+ * @returns false if the changes cannot be represented as paths (keys containing dots)
+ */
+function collectPathDifferences(prefix: string, o1: any, o2: any, paths: RowUpdatePath[]): boolean {
+    const keys1 = getRealKeys(o1);
+    const keys2 = getRealKeys(o2);
+
+    for (const key of keys1.concat(keys2)) {
+        if (key.includes(".")) {
+            return false;
+        }
+    }
+
+    for (const key of keys1) {
+        if (o1[key] !== undefined && o2[key] === undefined) {
+            paths.push({ path: prefix + "." + key, unset: true });
+        }
+    }
+
+    for (const key of keys2) {
+        if (o2[key] === undefined || isEqualsRecursive(o1[key], o2[key])) {
+            continue;
+        }
+        if (getType(o1[key]) === "object" && getType(o2[key]) === "object") {
+            if (!collectPathDifferences(prefix + "." + key, o1[key], o2[key], paths)) {
+                return false;
+            }
+        } else {
+            paths.push({ path: prefix + "." + key, value: makeCopyOfObject(o2[key]) });
+        }
+    }
+
+    return true;
+}
+
 function firstLevelObjectDifference(original: any, changed: any): any {
     const keys = Object.keys(changed);
     const changes: any = Object.create(null);
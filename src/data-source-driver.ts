@@ -3,7 +3,7 @@
 
 "use strict";
 
-import { GenericValue, GenericRow, GenericFilter, SortDirection, GenericKeyValue, GenericRowUpdate } from "./common";
+import { GenericValue, GenericRow, GenericFilter, SortDirection, GenericKeyValue, GenericRowUpdate, AggregationColumn, UpsertResult, ExtendedFilterOperationName, SortKey } from "./common";
 
 /**
  * Extra options for a query
@@ -13,14 +13,61 @@ export interface QueryExtraOptions {
      * Name of the index to use. Leave it undefined for the database to figure out automatically.
      */
     indexName?: string;
+
+    /**
+     * Full list of sort keys (set when sorting, see OrderBy).
+     * The sortBy and sortDir arguments only contain the first key, for drivers that do not support sort keys.
+     */
+    sort?: SortKey[];
 }
 
 
+/**
+ * Optional features supported by a driver
+ */
+export interface DataSourceDriverCapabilities {
+    /**
+     * True if the driver can apply changes of nested values (RowUpdatePaths).
+     * Otherwise, the full value of the field is replaced.
+     */
+    updatePaths?: boolean;
+
+    /**
+     * List of extended filtering operations supported by the driver.
+     * The basic ones (eq, ne, gt, gte, lt, lte, exists, in, regex, and, or, not) are always supported.
+     * Filters using any other operation are rejected before reaching the driver.
+     */
+    filterOperations?: ExtendedFilterOperationName[];
+
+    /**
+     * True if the driver sorts using all the keys of QueryExtraOptions.sort (multiple fields and null placement).
+     * Otherwise, only sortBy and sortDir are used, and queries sorting by more than one key are rejected.
+     */
+    sortKeys?: boolean;
+}
+
 /**
  * Represents a driver to connect to a data source,
  * for example a database (MYSQL, Mongo, etc)
  */
 export interface DataSourceDriver {
+    /* Capabilities */
+
+    /**
+     * Gets the optional features supported by the driver (Optional).
+     * If not implemented, no optional features are assumed.
+     * @returns The capabilities
+     */
+    getCapabilities?(): DataSourceDriverCapabilities;
+
+    /* Transactions */
+
+    /**
+     * Starts a new transaction (Optional, only if the data source supports transactions)
+     * @returns A driver bound to the transaction
+     */
+    beginTransaction?(): Promise<TransactionDriver>;
+
     /* Find */
 
     /**
@@ -106,8 +153,9 @@ export interface DataSourceDriver {
      * @param keyName Name of the key
      * @param keyValue Value of the key
      * @param updated Updated row
+     * @returns Optionally, the number of affected rows (reported to the query listeners)
      */
-    update(table: string, keyName: string, keyValue: GenericKeyValue, updated: GenericRow): Promise<void>;
+    update(table: string, keyName: string, keyValue: GenericKeyValue, updated: GenericRow): Promise<void | number>;
 
     /**
      * Updates many rows
@@ -118,6 +166,19 @@ export interface DataSourceDriver {
      */
     updateMany(table: string, filter: GenericFilter, updated: GenericRowUpdate): Promise<number>;
 
+    /* Upsert */
+
+    /**
+     * Inserts a row, or updates it if a row with the same keys already exists (Optional, only if the data source supports it natively).
+     * If the driver does not implement it, a non-atomic fallback (updateMany, then insert) is used.
+     * @param table Table or collection name
+     * @param keys Fields identifying the row: the primary key or a set of fields with a unique index. Their values are taken from the row.
+     * @param row Row to insert if it does not exist
+     * @param updated Updates to apply if the row exists (set, inc). Leave empty to keep the existing row unchanged.
+     * @returns "inserted" or "updated"
+     */
+    upsert?(table: string, keys: string[], row: GenericRow, updated: GenericRowUpdate): Promise<UpsertResult>;
+
     /* Delete */
 
     /**
@@ -148,6 +209,18 @@ export interface DataSourceDriver {
      */
     sum(table: string, filter: GenericFilter, id: string, field: string): Promise<number>;
 
+    /**
+     * Aggregation of many rows, grouped by a list of fields (Optional).
+     * If the driver does not implement it, the aggregation is computed with findStream.
+     * @param table Table or collection name
+     * @param filter Filter to apply
+     * @param groupBy List of fields to group by. Leave empty to aggregate all the rows into a single group.
+     * @param aggregations List of aggregation columns
+     * @param queryExtraOptions Additional query options
+     * @returns One row per group, with the values of the fields of groupBy and a value for each aggregation column
+     */
+    aggregate?(table: string, filter: GenericFilter, groupBy: string[], aggregations: AggregationColumn[], queryExtraOptions: QueryExtraOptions): Promise<GenericRow[]>;
+
     /**
      * Atomic increment
      * @param table Table or collection name
@@ -155,6 +228,24 @@ export interface DataSourceDriver {
      * @param keyValue The value of the key
      * @param prop The field to increment
      * @param inc The amount to increment
+     * @returns Optionally, the number of affected rows (reported to the query listeners)
      */
-    increment(table: string, keyName: string, keyValue: GenericKeyValue, prop: string, inc: number): Promise<void>;
-}
\ No newline at end of file
+    increment(table: string, keyName: string, keyValue: GenericKeyValue, prop: string, inc: number): Promise<void | number>;
+}
+
+/**
+ * Driver bound to a transaction.
+ * All the operations made with this driver are part of the transaction,
+ * until commit() or rollback() is called.
+ */
+export interface TransactionDriver extends DataSourceDriver {
+    /**
+     * Commits the transaction
+     */
+    commit(): Promise<void>;
+
+    /**
+     * Rolls back the transaction
+     */
+    rollback(): Promise<void>;
+}
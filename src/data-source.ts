@@ -3,7 +3,29 @@
 
 "use strict";
 
+import { GenericRowUpdate } from "./common";
 import { DataSourceDriver } from "./data-source-driver";
+import { QueryEventListener, QueryEventMap, QueryEventName } from "./instrumentation";
+import { DriverMiddleware, MiddlewareDriver } from "./middleware";
+import { Transaction } from "./transaction";
+
+/**
+ * Data model lifecycle event
+ */
+export type DataModelHookEvent = "beforeInsert" | "afterInsert" | "beforeSave" | "afterSave" | "beforeDelete" | "afterDelete";
+
+/**
+ * Data model lifecycle hook.
+ * Throwing an error (or rejecting) in a "before" hook aborts the operation.
+ * @param model The data model instance
+ * @param changes The changes to save (only for beforeSave and afterSave)
+ */
+export type DataModelHook<T = any> = (model: T, changes: GenericRowUpdate) => Promise<void> | void;
+
+/**
+ * Clock, returning the current date
+ */
+export type Clock = () => Date;
 
 /**
  * Represents a generic data source for the ORM to use
@@ -40,9 +62,218 @@ export class DataSource {
     public name: string;
     public driver: DataSourceDriver;
 
+    /**
+     * Clock used to get the current date for the automatic timestamps
+     * (@CreatedAt, @UpdatedAt, @SoftDelete). Replace it to control the time in tests.
+     */
+    public clock: Clock;
+
+    private hooks: Map<string, Map<DataModelHookEvent, DataModelHook[]>>;
+
+    private queryListeners: Map<QueryEventName, QueryEventListener[]>;
+
+    private middlewares: DriverMiddleware[];
+
+    private wrapped: MiddlewareDriver;
+    private wrappedSource: DataSourceDriver;
+
     constructor(name: string, driver: DataSourceDriver) {
         this.name = name;
         this.driver = driver;
+        this.clock = () => new Date();
+        this.hooks = new Map();
+        this.queryListeners = new Map();
+        this.middlewares = [];
+        this.wrapped = null;
+        this.wrappedSource = null;
+    }
+
+    /**
+     * Gets the driver used to run the operations.
+     * It wraps the driver of the data source to run the operations
+     * through the middleware chain and emit the query events.
+     * @returns The driver
+     */
+    public getDriver(): DataSourceDriver {
+        if (!this.wrapped || this.wrappedSource !== this.driver) {
+            this.wrapped = new MiddlewareDriver(this, this.driver, false);
+            this.wrappedSource = this.driver;
+        }
+        return this.wrapped;
+    }
+
+    /**
+     * Adds a driver middleware, intercepting every operation sent to the driver
+     * (including the ones made inside transactions).
+     * Middlewares run in the order they were added: the first one receives the operation first,
+     * and the result last.
+     * @param middleware The middleware
+     */
+    public use(middleware: DriverMiddleware) {
+        this.middlewares.push(middleware);
+    }
+
+    /**
+     * Removes a driver middleware
+     * @param middleware The middleware
+     */
+    public removeMiddleware(middleware: DriverMiddleware) {
+        this.middlewares = this.middlewares.filter(m => m !== middleware);
+    }
+
+    /**
+     * @returns A copy of the list of driver middlewares, in the order they run
+     */
+    public getMiddlewares(): DriverMiddleware[] {
+        return this.middlewares.slice();
+    }
+
+    /**
+     * Adds a global lifecycle hook for the data models of a table
+     * @param table Name of the table
+     * @param event Lifecycle event
+     * @param hook The hook
+     */
+    public addHook<T = any>(table: string, event: DataModelHookEvent, hook: DataModelHook<T>) {
+        if (!this.hooks.has(table)) {
+            this.hooks.set(table, new Map());
+        }
+        const tableHooks = this.hooks.get(table);
+        if (!tableHooks.has(event)) {
+            tableHooks.set(event, []);
+        }
+        tableHooks.get(event).push(hook);
+    }
+
+    /**
+     * Removes a global lifecycle hook
+     * @param table Name of the table
+     * @param event Lifecycle event
+     * @param hook The hook
+     */
+    public removeHook<T = any>(table: string, event: DataModelHookEvent, hook: DataModelHook<T>) {
+        const tableHooks = this.hooks.get(table);
+        if (!tableHooks || !tableHooks.has(event)) {
+            return;
+        }
+        tableHooks.set(event, tableHooks.get(event).filter(h => h !== hook));
+    }
+
+    /**
+     * Runs the global lifecycle hooks for a table, in the order they were added
+     * @param table Name of the table
+     * @param event Lifecycle event
+     * @param model The data model instance
+     * @param changes The changes to save (only for beforeSave and afterSave)
+     */
+    public async runHooks(table: string, event: DataModelHookEvent, model: any, changes: GenericRowUpdate): Promise<void> {
+        const tableHooks = this.hooks.get(table);
+        if (!tableHooks || !tableHooks.has(event)) {
+            return;
+        }
+        for (const hook of tableHooks.get(event).slice()) {
+            await hook(model, changes);
+        }
+    }
+
+    /**
+     * Adds a listener for the query events, emitted for each operation of the driver:
+     *  - start: The operation started
+     *  - end: The operation finished (with duration and row counts)
+     *  - error: The operation failed (with duration and error)
+     * Listeners are called synchronously. Errors thrown by them are ignored.
+     * @param event Name of the event
+     * @param listener The listener
+     */
+    public addQueryListener<E extends QueryEventName>(event: E, listener: QueryEventListener<E>) {
+        if (!this.queryListeners.has(event)) {
+            this.queryListeners.set(event, []);
+        }
+        this.queryListeners.get(event).push(listener);
+    }
+
+    /**
+     * Removes a listener for the query events
+     * @param event Name of the event
+     * @param listener The listener
+     */
+    public removeQueryListener<E extends QueryEventName>(event: E, listener: QueryEventListener<E>) {
+        if (!this.queryListeners.has(event)) {
+            return;
+        }
+        this.queryListeners.set(event, this.queryListeners.get(event).filter(l => l !== listener));
+    }
+
+    /**
+     * @returns true if there is any listener for the query events
+     */
+    public hasQueryListeners(): boolean {
+        for (const listeners of this.queryListeners.values()) {
+            if (listeners.length > 0) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Emits a query event, calling the listeners in the order they were added
+     * @param event Name of the event
+     * @param data The event data
+     */
+    public emitQueryEvent<E extends QueryEventName>(event: E, data: QueryEventMap[E]) {
+        const listeners = this.queryListeners.get(event);
+        if (!listeners) {
+            return;
+        }
+        for (const listener of listeners.slice()) {
+            try {
+                listener(data);
+            } catch (ex) {
+                // Listeners must not break the operations
+            }
+        }
+    }
+
+    /**
+     * Starts a new transaction
+     * @returns The transaction
+     */
+    public async beginTransaction(): Promise<Transaction> {
+        if (!this.driver.beginTransaction) {
+            throw new Error("The driver of the data source " + this.name + " does not support transactions.");
+        }
+        const driver = await this.driver.beginTransaction();
+        return new Transaction(this, new MiddlewareDriver(this, driver, true));
+    }
+
+    /**
+     * Runs a function inside a transaction.
+     * The transaction is committed when the function finishes,
+     * or rolled back if the function or the commit throw an error.
+     * If the rollback fails as well, the error of the function is thrown.
+     * @param fn The function to run
+     * @returns The value returned by the function
+     */
+    public async transaction<R>(fn: (tx: Transaction) => Promise<R>): Promise<R> {
+        const tx = await this.beginTransaction();
+        let result: R;
+        try {
+            result = await fn(tx);
+            if (!tx.isFinished()) {
+                await tx.commit();
+            }
+        } catch (ex) {
+            if (!tx.isFinished()) {
+                try {
+                    await tx.rollback();
+                } catch (rollbackError) {
+                    // The original error is more relevant
+                }
+            }
+            throw ex;
+        }
+        return result;
     }
 }
 
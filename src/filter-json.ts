@@ -0,0 +1,412 @@
+// Filter serialization
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { FilterCompareOperation, GenericFilter, GenericValue } from "./common";
+
+/**
+ * Current version of the serialized filter format
+ */
+export const FILTER_JSON_VERSION = 1;
+
+/**
+ * Serialized filter (see DataFilter.toJSON)
+ * Values that cannot be represented in JSON are tagged:
+ * - Dates: {"$date": "ISO string"}
+ * - Bigints: {"$bigint": "decimal string"}
+ * - Regular expressions: {"$regex": "source", "$flags": "flags"} (the flags g and y are not allowed)
+ * - Objects: {"$object": {...}}
+ */
+export interface SerializedFilter {
+    /**
+     * Version of the format
+     */
+    version: number;
+
+    /**
+     * The filter (null to find anything)
+     */
+    filter: any;
+}
+
+/**
+ * Options to parse a serialized filter
+ */
+export interface FilterJSONOptions {
+    /**
+     * Max depth of the filter, including nested values. Default: 16
+     */
+    maxDepth?: number;
+
+    /**
+     * List of keys (fields) the filter can use. By default, any key is allowed.
+     */
+    allowedKeys?: string[];
+
+    /**
+     * List of operations the filter can use. By default, any known operation is allowed.
+     * Note: Regular expressions from untrusted sources may be very slow to evaluate.
+     */
+    allowedOperations?: string[];
+}
+
+/**
+ * Error thrown when a serialized filter is not valid
+ */
+export class InvalidFilterError extends Error {
+    /**
+     * Path of the invalid element (eg: "filter.children[0].key")
+     */
+    public path: string;
+
+    /**
+     * Constructor
+     * @param path Path of the invalid element
+     * @param message Error message
+     */
+    constructor(path: string, message: string) {
+        super("Invalid filter at " + path + ": " + message);
+        this.name = "InvalidFilterError";
+        this.path = path;
+    }
+}
+
+const DEFAULT_MAX_DEPTH = 16;
+
+/**
+ * Properties of each filtering operation (besides "operation")
+ */
+const FILTER_OPERATION_PROPERTIES: { [operation: string]: string[] } = {
+    and: ["children"],
+    or: ["children"],
+    not: ["child"],
+    eq: ["key", "value"],
+    ne: ["key", "value"],
+    gt: ["key", "value"],
+    gte: ["key", "value"],
+    lt: ["key", "value"],
+    lte: ["key", "value"],
+    exists: ["key", "exists"],
+    in: ["key", "values"],
+    nin: ["key", "values"],
+    regex: ["key", "regexp"],
+    between: ["key", "min", "max"],
+    containsAny: ["key", "values"],
+    containsAll: ["key", "values"],
+    size: ["key", "size"],
+    ieq: ["key", "value"],
+    like: ["key", "pattern", "ignoreCase"],
+};
+
+/**
+ * Serializes a filter
+ * @param filter The filter
+ * @returns The serialized filter (can be converted to string with JSON.stringify)
+ */
+export function serializeFilter(filter: GenericFilter): SerializedFilter {
+    return {
+        version: FILTER_JSON_VERSION,
+        filter: filter ? serializeFilterNode(filter) : null,
+    };
+}
+
+/**
+ * Parses a serialized filter, validating it
+ * @param json The serialized filter (object or JSON string)
+ * @param options Optional. Validation options.
+ * @returns The filter
+ */
+export function parseSerializedFilter(json: SerializedFilter | string, options?: FilterJSONOptions): GenericFilter {
+    if (typeof json === "string") {
+        try {
+            json = JSON.parse(json);
+        } catch (ex) {
+            throw new InvalidFilterError("$", "Not a valid JSON string.");
+        }
+    }
+
+    if (!isPlainObject(json)) {
+        throw new InvalidFilterError("$", "Expected an object.");
+    }
+
+    checkProperties(json, ["version", "filter"], "$");
+
+    if ((<SerializedFilter>json).version !== FILTER_JSON_VERSION) {
+        throw new InvalidFilterError("version", "Unsupported version: " + (<SerializedFilter>json).version);
+    }
+
+    const filter = (<SerializedFilter>json).filter;
+
+    if (filter === null || filter === undefined) {
+        return null;
+    }
+
+    const parser = new FilterParser(options || {});
+
+    return parser.parseNode(filter, "filter", 1);
+}
+
+function serializeFilterNode(filter: GenericFilter): any {
+    switch (filter.operation) {
+    case "and":
+    case "or":
+        return { operation: filter.operation, children: filter.children.map(serializeFilterNode) };
+    case "not":
+        return { operation: "not", child: serializeFilterNode(filter.child) };
+    case "regex":
+        return { operation: "regex", key: filter.key, regexp: { $regex: filter.regexp.source, $flags: filter.regexp.flags.replace(/[gy]/g, "") } };
+    case "like":
+        return { operation: "like", key: filter.key, pattern: filter.pattern, ignoreCase: !!filter.ignoreCase };
+    default:
+    {
+        const properties = FILTER_OPERATION_PROPERTIES[(<any>filter).operation];
+        if (!properties) {
+            throw new Error("Cannot serialize the filtering operation: " + (<any>filter).operation);
+        }
+        const result: any = { operation: filter.operation };
+        for (const property of properties) {
+            result[property] = serializeValue((<any>filter)[property]);
+        }
+        return result;
+    }
+    }
+}
+
+function serializeValue(value: GenericValue): any {
+    if (value === null || value === undefined) {
+        return null;
+    }
+
+    switch (typeof value) {
+    case "string":
+    case "boolean":
+        return value;
+    case "number":
+        if (!isFinite(value)) {
+            throw new Error("Cannot serialize a non-finite number in a filter.");
+        }
+        return value;
+    case "bigint":
+        return { $bigint: value.toString() };
+    case "object":
+        if (value instanceof Date) {
+            if (isNaN(value.getTime())) {
+                throw new Error("Cannot serialize an invalid date in a filter.");
+            }
+            return { $date: value.toISOString() };
+        } else if (value instanceof Array) {
+            return value.map(serializeValue);
+        } else {
+            const obj: any = {};
+            for (const key of Object.keys(value)) {
+                obj[key] = serializeValue(value[key]);
+            }
+            return { $object: obj };
+        }
+    default:
+        throw new Error("Cannot serialize a value of type " + (typeof value) + " in a filter.");
+    }
+}
+
+/**
+ * Parser of serialized filters (validates the untrusted input)
+ */
+class FilterParser {
+    private maxDepth: number;
+    private allowedKeys: Set<string>;
+    private allowedOperations: Set<string>;
+
+    constructor(options: FilterJSONOptions) {
+        this.maxDepth = typeof options.maxDepth === "number" ? options.maxDepth : DEFAULT_MAX_DEPTH;
+        this.allowedKeys = options.allowedKeys ? new Set(options.allowedKeys) : null;
+        this.allowedOperations = options.allowedOperations ? new Set(options.allowedOperations) : null;
+    }
+
+    public parseNode(node: any, path: string, depth: number): GenericFilter {
+        this.checkDepth(path, depth);
+
+        if (!isPlainObject(node)) {
+            throw new InvalidFilterError(path, "Expected an object.");
+        }
+
+        const operation = node.operation;
+
+        if (typeof operation !== "string" || !Object.prototype.hasOwnProperty.call(FILTER_OPERATION_PROPERTIES, operation)) {
+            throw new InvalidFilterError(path + ".operation", "Unknown operation: " + operation);
+        }
+
+        if (this.allowedOperations && !this.allowedOperations.has(operation)) {
+            throw new InvalidFilterError(path + ".operation", "Operation not allowed: " + operation);
+        }
+
+        const properties = FILTER_OPERATION_PROPERTIES[operation];
+
+        checkProperties(node, ["operation"].concat(properties), path);
+
+        for (const property of properties) {
+            if (!Object.prototype.hasOwnProperty.call(node, property)) {
+                throw new InvalidFilterError(path + "." + property, "Missing property.");
+            }
+        }
+
+        switch (operation) {
+        case "and":
+        case "or":
+            if (!(node.children instanceof Array)) {
+                throw new InvalidFilterError(path + ".children", "Expected an array.");
+            }
+            return { operation: operation, children: node.children.map((child, i) => this.parseNode(child, path + ".children[" + i + "]", depth + 1)) };
+        case "not":
+            return { operation: "not", child: this.parseNode(node.child, path + ".child", depth + 1) };
+        }
+
+        const key = this.parseKey(node.key, path + ".key");
+
+        switch (operation) {
+        case "exists":
+            return { operation: "exists", key: key, exists: parseBoolean(node.exists, path + ".exists") };
+        case "in":
+        case "nin":
+        case "containsAny":
+        case "containsAll":
+            if (!(node.values instanceof Array)) {
+                throw new InvalidFilterError(path + ".values", "Expected an array.");
+            }
+            return { operation: operation, key: key, values: node.values.map((v, i) => this.parseValue(v, path + ".values[" + i + "]", depth)) };
+        case "regex":
+            return { operation: "regex", key: key, regexp: parseRegExp(node.regexp, path + ".regexp") };
+        case "between":
+            return { operation: "between", key: key, min: this.parseValue(node.min, path + ".min", depth), max: this.parseValue(node.max, path + ".max", depth) };
+        case "size":
+            if (typeof node.size !== "number" || !Number.isInteger(node.size) || node.size < 0) {
+                throw new InvalidFilterError(path + ".size", "Expected a non-negative integer.");
+            }
+            return { operation: "size", key: key, size: node.size };
+        case "ieq":
+            if (typeof node.value !== "string") {
+                throw new InvalidFilterError(path + ".value", "Expected a string.");
+            }
+            return { operation: "ieq", key: key, value: node.value };
+        case "like":
+            if (typeof node.pattern !== "string") {
+                throw new InvalidFilterError(path + ".pattern", "Expected a string.");
+            }
+            return { operation: "like", key: key, pattern: node.pattern, ignoreCase: parseBoolean(node.ignoreCase, path + ".ignoreCase") };
+        default:
+            return { operation: <FilterCompareOperation["operation"]>operation, key: key, value: this.parseValue(node.value, path + ".value", depth) };
+        }
+    }
+
+    private parseKey(key: any, path: string): string {
+        if (typeof key !== "string" || key.length === 0) {
+            throw new InvalidFilterError(path, "Expected a non-empty string.");
+        }
+        if (this.allowedKeys && !this.allowedKeys.has(key)) {
+            throw new InvalidFilterError(path, "Key not allowed: " + key);
+        }
+        return key;
+    }
+
+    private parseValue(value: any, path: string, depth: number): GenericValue {
+        if (value === null || typeof value === "string" || typeof value === "boolean") {
+            return value;
+        }
+
+        if (typeof value === "number") {
+            if (!isFinite(value)) {
+                throw new InvalidFilterError(path, "Expected a finite number.");
+            }
+            return value;
+        }
+
+        this.checkDepth(path, depth + 1);
+
+        if (value instanceof Array) {
+            return value.map((v, i) => this.parseValue(v, path + "[" + i + "]", depth + 1));
+        }
+
+        if (!isPlainObject(value)) {
+            throw new InvalidFilterError(path, "Unexpected value.");
+        }
+
+        const tags = Object.keys(value);
+
+        if (tags.length !== 1) {
+            throw new InvalidFilterError(path, "Expected a tagged value ($date, $bigint or $object).");
+        }
+
+        switch (tags[0]) {
+        case "$date":
+        {
+            const date = typeof value.$date === "string" ? new Date(value.$date) : null;
+            if (!date || isNaN(date.getTime())) {
+                throw new InvalidFilterError(path + ".$date", "Expected a valid date string.");
+            }
+            return date;
+        }
+        case "$bigint":
+            if (typeof value.$bigint !== "string" || !(/^-?[0-9]+$/).test(value.$bigint)) {
+                throw new InvalidFilterError(path + ".$bigint", "Expected an integer string.");
+            }
+            return BigInt(value.$bigint);
+        case "$object":
+        {
+            if (!isPlainObject(value.$object)) {
+                throw new InvalidFilterError(path + ".$object", "Expected an object.");
+            }
+            const obj = Object.create(null);
+            for (const key of Object.keys(value.$object)) {
+                obj[key] = this.parseValue(value.$object[key], path + ".$object." + key, depth + 1);
+            }
+            return obj;
+        }
+        default:
+            throw new InvalidFilterError(path, "Unknown tag: " + tags[0]);
+        }
+    }
+
+    private checkDepth(path: string, depth: number) {
+        if (depth > this.maxDepth) {
+            throw new InvalidFilterError(path, "Max depth exceeded (" + this.maxDepth + ").");
+        }
+    }
+}
+
+function parseBoolean(value: any, path: string): boolean {
+    if (typeof value !== "boolean") {
+        throw new InvalidFilterError(path, "Expected a boolean.");
+    }
+    return value;
+}
+
+function parseRegExp(value: any, path: string): RegExp {
+    if (!isPlainObject(value) || typeof value.$regex !== "string" || typeof value.$flags !== "string") {
+        throw new InvalidFilterError(path, "Expected a tagged regular expression ($regex and $flags).");
+    }
+
+    checkProperties(value, ["$regex", "$flags"], path);
+
+    // The global and sticky flags (g, y) are rejected, since they make RegExp.test stateful
+    if (!(/^[imsu]*$/).test(value.$flags)) {
+        throw new InvalidFilterError(path + ".$flags", "Invalid flags: " + value.$flags);
+    }
+
+    try {
+        return new RegExp(value.$regex, value.$flags);
+    } catch (ex) {
+        throw new InvalidFilterError(path + ".$regex", "Invalid regular expression.");
+    }
+}
+
+function checkProperties(obj: any, allowed: string[], path: string) {
+    for (const key of Object.keys(obj)) {
+        if (!allowed.includes(key)) {
+            throw new InvalidFilterError(path, "Unexpected property: " + key);
+        }
+    }
+}
+
+function isPlainObject(value: any): boolean {
+    return typeof value === "object" && value !== null && !(value instanceof Array);
+}
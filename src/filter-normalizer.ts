@@ -0,0 +1,260 @@
+// Filter normalization
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { FilterCompareOperation, FilterIntoOperation, GenericFilter, GenericKeyValue } from "./common";
+import { valuesEqual } from "./util";
+
+/**
+ * Checks if a normalized filter never matches any row (contradiction).
+ * Contradictions are represented as an OR operation without children.
+ * @param filter The normalized filter
+ * @returns True if the filter never matches
+ */
+export function isContradiction(filter: GenericFilter): boolean {
+    return !!filter && filter.operation === "or" && filter.children.length === 0;
+}
+
+/**
+ * Normalizes a filter, so drivers receive canonical filters:
+ * - Nested AND / OR operations are flattened
+ * - Null children (any) are dropped from AND operations, and make OR operations match anything (null)
+ * - Equality conditions (eq, in) over the same key are merged: into "in" for OR operations, intersected for AND operations
+ * - NOT operations are pushed inward (De Morgan), and removed when the negated operation exists (eq / ne, exists)
+ * - Contradictions (eg: a = 1 AND a = 2) are detected (see isContradiction)
+ * The input filter is not modified.
+ * @param filter The filter
+ * @returns The normalized filter (null to match anything)
+ */
+export function normalizeFilter(filter: GenericFilter): GenericFilter {
+    if (!filter) {
+        return null;
+    }
+
+    switch (filter.operation) {
+    case "and":
+        return normalizeAnd(filter.children.map(normalizeFilter));
+    case "or":
+        return normalizeOr(filter.children.map(normalizeFilter));
+    case "not":
+        return negateFilter(normalizeFilter(filter.child));
+    default:
+        return filter;
+    }
+}
+
+/**
+ * Builds a contradiction (a new object each time, since callers may modify the normalized filter)
+ * @returns The contradiction
+ */
+function makeContradiction(): GenericFilter {
+    return { operation: "or", children: [] };
+}
+
+/**
+ * Negates a normalized filter
+ * @param filter The normalized filter
+ * @returns The normalized negation
+ */
+function negateFilter(filter: GenericFilter): GenericFilter {
+    if (!filter) {
+        return makeContradiction();
+    }
+
+    switch (filter.operation) {
+    case "and":
+        return normalizeOr(filter.children.map(negateFilter));
+    case "or":
+        if (filter.children.length === 0) {
+            return null;
+        }
+        return normalizeAnd(filter.children.map(negateFilter));
+    case "not":
+        return filter.child;
+    case "eq":
+        return { operation: "ne", key: filter.key, value: filter.value };
+    case "ne":
+        return { operation: "eq", key: filter.key, value: filter.value };
+    case "exists":
+        return { operation: "exists", key: filter.key, exists: !filter.exists };
+    case "nin":
+        return { operation: "in", key: filter.key, values: filter.values };
+    default:
+        return { operation: "not", child: filter };
+    }
+}
+
+/**
+ * Builds a normalized AND operation
+ * @param children The normalized children
+ * @returns The normalized filter
+ */
+function normalizeAnd(children: GenericFilter[]): GenericFilter {
+    let result: GenericFilter[] = [];
+
+    for (const child of children) {
+        if (!child) {
+            continue; // Matches anything
+        }
+        if (isContradiction(child) || (child.operation === "in" && child.values.length === 0)) {
+            return makeContradiction();
+        }
+        if (child.operation === "and") {
+            result.push(...child.children);
+        } else {
+            result.push(child);
+        }
+    }
+
+    result = mergeEqualities(result, "and");
+
+    if (!result) {
+        return makeContradiction();
+    }
+
+    const exists = new Map<string, boolean>();
+
+    for (const child of result) {
+        if (child.operation !== "exists") {
+            continue;
+        }
+        if (exists.has(child.key) && exists.get(child.key) !== child.exists) {
+            return makeContradiction();
+        }
+        exists.set(child.key, child.exists);
+    }
+
+    for (const child of result) {
+        if (child.operation === "eq" && exists.get(child.key) === false && child.value !== null && child.value !== undefined) {
+            return makeContradiction();
+        }
+    }
+
+    if (result.length === 0) {
+        return null;
+    } else if (result.length === 1) {
+        return result[0];
+    } else {
+        return { operation: "and", children: result };
+    }
+}
+
+/**
+ * Builds a normalized OR operation
+ * @param children The normalized children
+ * @returns The normalized filter
+ */
+function normalizeOr(children: GenericFilter[]): GenericFilter {
+    let result: GenericFilter[] = [];
+
+    for (const child of children) {
+        if (!child) {
+            return null; // Matches anything
+        }
+        if (child.operation === "in" && child.values.length === 0) {
+            continue; // Never matches
+        }
+        if (child.operation === "or") {
+            result.push(...child.children);
+        } else {
+            result.push(child);
+        }
+    }
+
+    result = mergeEqualities(result, "or");
+
+    const exists = new Map<string, boolean>();
+
+    for (const child of result) {
+        if (child.operation !== "exists") {
+            continue;
+        }
+        if (exists.has(child.key) && exists.get(child.key) !== child.exists) {
+            return null; // Null or not null
+        }
+        exists.set(child.key, child.exists);
+    }
+
+    if (result.length === 1) {
+        return result[0];
+    }
+
+    // An OR operation without children never matches (contradiction)
+    return { operation: "or", children: result };
+}
+
+/**
+ * Merges the equality conditions (eq, in) over the same key.
+ * Equalities with null are not merged, since IN (NULL) does not match null values.
+ * @param children The children of the operation
+ * @param operation The operation (and = intersection, or = union)
+ * @returns The list of children, or null if the merge results in a contradiction
+ */
+function mergeEqualities(children: GenericFilter[], operation: "and" | "or"): GenericFilter[] {
+    const groups = new Map<string, GenericKeyValue[]>();
+    const counts = new Map<string, number>();
+
+    for (const child of children) {
+        if (!isMergeableEquality(child)) {
+            continue;
+        }
+
+        const values: GenericKeyValue[] = child.operation === "in" ? child.values : [child.value];
+
+        const current = groups.get(child.key);
+
+        if (!current) {
+            groups.set(child.key, uniqueValues(values));
+        } else if (operation === "and") {
+            groups.set(child.key, current.filter(v => values.some(w => valuesEqual(v, w))));
+        } else {
+            groups.set(child.key, uniqueValues(current.concat(values)));
+        }
+
+        counts.set(child.key, (counts.get(child.key) || 0) + 1);
+    }
+
+    const result: GenericFilter[] = [];
+
+    for (const child of children) {
+        if (!isMergeableEquality(child) || counts.get(child.key) === 1) {
+            result.push(child);
+            continue;
+        }
+
+        const values = groups.get(child.key);
+
+        if (!values) {
+            continue; // Already merged
+        }
+
+        groups.delete(child.key);
+
+        if (values.length === 0) {
+            if (operation === "and") {
+                return null;
+            }
+        } else if (values.length === 1) {
+            result.push({ operation: "eq", key: child.key, value: values[0] });
+        } else {
+            result.push({ operation: "in", key: child.key, values: values });
+        }
+    }
+
+    return result;
+}
+
+function isMergeableEquality(filter: GenericFilter): filter is FilterCompareOperation | FilterIntoOperation {
+    return filter.operation === "in" || (filter.operation === "eq" && filter.value !== null && filter.value !== undefined);
+}
+
+function uniqueValues(values: GenericKeyValue[]): GenericKeyValue[] {
+    const result: GenericKeyValue[] = [];
+    for (const value of values) {
+        if (!result.some(v => valuesEqual(v, value))) {
+            result.push(value);
+        }
+    }
+    return result;
+}
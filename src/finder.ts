@@ -3,10 +3,17 @@
 
 "use strict";
 
-import { GenericFilter, ModelKeyName, GenericKeyValue, SortDirection, GenericValue, TypedRow, StrictRowUpdate } from "./common";
-import { DataAccessObject } from "./dao";
+import { Readable } from "stream";
+import { GenericFilter, ModelKeyName, ModelFieldPath, NullsPlacement, SortKey, GenericKeyValue, SortDirection, GenericValue, TypedRow, StrictRowUpdate, AggregationFunction, GenericRow, GenericRowUpdate, UpsertManyResult, RowUpdateKind, RowUpdateSet, RowUpdateIncrement, RowUpdateUnset, RowUpdateMultiply, RowUpdateMin, RowUpdateMax, RowUpdatePush, RowUpdatePull, RowUpdateAddToSet, RowUpdateCurrentDate } from "./common";
+import { DataAccessObject, makeCopyOfObject } from "./dao";
 import { QueryExtraOptions } from "./data-source-driver";
-import { escapeRegExp } from "./util";
+import { decodePageCursor, encodePageCursor, makeKeysetFilter, PageResult } from "./pagination";
+import { loadRelations } from "./relations";
+import { ModelClass, onModelSchemaReady } from "./schema";
+import { makeStreamIterator } from "./stream";
+import { Transaction } from "./transaction";
+import { escapeRegExp, getFieldPathValue } from "./util";
+import { FilterJSONOptions, parseSerializedFilter, SerializedFilter, serializeFilter } from "./filter-json";
 
 /**
  * Data filter generator
@@ -60,7 +67,7 @@ export class DataFilter<T = any> {
      * @param key The key
      * @param value The value
      */
-    public static equals<T = any>(key: ModelKeyName<T>, value: GenericKeyValue): DataFilter<T> {
+    public static equals<T = any>(key: ModelFieldPath<T>, value: GenericKeyValue): DataFilter<T> {
         return new DataFilter({ operation: "eq", key: key, value: value });
     }
 
@@ -70,7 +77,7 @@ export class DataFilter<T = any> {
      * @param key The key
      * @param value The value
      */
-    public static notEquals<T = any>(key: ModelKeyName<T>, value: GenericKeyValue): DataFilter<T> {
+    public static notEquals<T = any>(key: ModelFieldPath<T>, value: GenericKeyValue): DataFilter<T> {
         return new DataFilter({ operation: "ne", key: key, value: value });
     }
 
@@ -79,7 +86,7 @@ export class DataFilter<T = any> {
      * @param key The key
      * @param value The value
      */
-    public static greaterThan<T = any>(key: ModelKeyName<T>, value: GenericKeyValue): DataFilter<T> {
+    public static greaterThan<T = any>(key: ModelFieldPath<T>, value: GenericKeyValue): DataFilter<T> {
         return new DataFilter({ operation: "gt", key: key, value: value });
     }
 
@@ -88,7 +95,7 @@ export class DataFilter<T = any> {
      * @param key The key
      * @param value The value
      */
-    public static greaterOrEquals<T = any>(key: ModelKeyName<T>, value: GenericKeyValue): DataFilter<T> {
+    public static greaterOrEquals<T = any>(key: ModelFieldPath<T>, value: GenericKeyValue): DataFilter<T> {
         return new DataFilter({ operation: "gte", key: key, value: value });
     }
 
@@ -97,7 +104,7 @@ export class DataFilter<T = any> {
      * @param key The key
      * @param value The value
      */
-    public static lessThan<T = any>(key: ModelKeyName<T>, value: GenericKeyValue): DataFilter<T> {
+    public static lessThan<T = any>(key: ModelFieldPath<T>, value: GenericKeyValue): DataFilter<T> {
         return new DataFilter({ operation: "lt", key: key, value: value });
     }
 
@@ -106,7 +113,7 @@ export class DataFilter<T = any> {
      * @param key The key
      * @param value The value
      */
-    public static lessOrEquals<T = any>(key: ModelKeyName<T>, value: GenericKeyValue): DataFilter<T> {
+    public static lessOrEquals<T = any>(key: ModelFieldPath<T>, value: GenericKeyValue): DataFilter<T> {
         return new DataFilter({ operation: "lte", key: key, value: value });
     }
 
@@ -115,16 +122,88 @@ export class DataFilter<T = any> {
      * @param key The key
      * @param values The values
      */
-    public static into<T = any>(key: ModelKeyName<T>, values: GenericKeyValue[]): DataFilter<T> {
+    public static into<T = any>(key: ModelFieldPath<T>, values: GenericKeyValue[]): DataFilter<T> {
         return new DataFilter({ operation: "in", key: key, values: values });
     }
 
+    /**
+     * Requires key not in values
+     * Requires driver support (nin)
+     * @param key The key
+     * @param values The values
+     */
+    public static notInto<T = any>(key: ModelFieldPath<T>, values: GenericKeyValue[]): DataFilter<T> {
+        return new DataFilter({ operation: "nin", key: key, values: values });
+    }
+
+    /**
+     * Requires min <= key <= max
+     * Requires driver support (between)
+     * @param key The key
+     * @param min The min value (included)
+     * @param max The max value (included)
+     */
+    public static between<T = any>(key: ModelFieldPath<T>, min: GenericKeyValue, max: GenericKeyValue): DataFilter<T> {
+        return new DataFilter({ operation: "between", key: key, min: min, max: max });
+    }
+
+    /**
+     * Requires key (array) to contain at least one of the values
+     * Requires driver support (containsAny)
+     * @param key The key
+     * @param values The values
+     */
+    public static arrayContainsAny<T = any>(key: ModelFieldPath<T>, values: GenericKeyValue[]): DataFilter<T> {
+        return new DataFilter({ operation: "containsAny", key: key, values: values });
+    }
+
+    /**
+     * Requires key (array) to contain all the values
+     * Requires driver support (containsAll)
+     * @param key The key
+     * @param values The values
+     */
+    public static arrayContainsAll<T = any>(key: ModelFieldPath<T>, values: GenericKeyValue[]): DataFilter<T> {
+        return new DataFilter({ operation: "containsAll", key: key, values: values });
+    }
+
+    /**
+     * Requires key (array) to have an exact length
+     * Requires driver support (size)
+     * @param key The key
+     * @param size The length of the array
+     */
+    public static arraySize<T = any>(key: ModelFieldPath<T>, size: number): DataFilter<T> {
+        return new DataFilter({ operation: "size", key: key, size: size });
+    }
+
+    /**
+     * Requires key == value, ignoring case (strings)
+     * Requires driver support (ieq)
+     * @param key The key
+     * @param value The value
+     */
+    public static equalsIgnoreCase<T = any>(key: ModelFieldPath<T>, value: string): DataFilter<T> {
+        return new DataFilter({ operation: "ieq", key: key, value: value });
+    }
+
+    /**
+     * Requires key to match a wildcard pattern (% for any sequence of characters, _ for a single character, a backslash to escape)
+     * Requires driver support (like)
+     * @param key The key
+     * @param pattern The pattern
+     * @param ignoreCase true to ignore case
+     */
+    public static like<T = any>(key: ModelFieldPath<T>, pattern: string, ignoreCase?: boolean): DataFilter<T> {
+        return new DataFilter({ operation: "like", key: key, pattern: pattern, ignoreCase: !!ignoreCase });
+    }
+
     /**
      * Requires key == null
      * @param key The key
      * @param value The value
      */
-    public static isNull<T = any>(key: ModelKeyName<T>): DataFilter<T> {
+    public static isNull<T = any>(key: ModelFieldPath<T>): DataFilter<T> {
         return new DataFilter({ operation: "exists", key: key, exists: false });
     }
 
@@ -133,7 +212,7 @@ export class DataFilter<T = any> {
      * @param key The key
      * @param value The value
      */
-    public static isNotNull<T = any>(key: ModelKeyName<T>): DataFilter<T> {
+    public static isNotNull<T = any>(key: ModelFieldPath<T>): DataFilter<T> {
         return new DataFilter({ operation: "exists", key: key, exists: true });
     }
 
@@ -143,7 +222,7 @@ export class DataFilter<T = any> {
      * @param value The value
      * @param ignoreCase true to ignore case
      */
-    public static startsWith<T = any>(key: ModelKeyName<T>, value: string, ignoreCase?: boolean): DataFilter<T> {
+    public static startsWith<T = any>(key: ModelFieldPath<T>, value: string, ignoreCase?: boolean): DataFilter<T> {
         let regex: RegExp;
 
         if (ignoreCase) {
@@ -161,7 +240,7 @@ export class DataFilter<T = any> {
      * @param value The value
      * @param ignoreCase true to ignore case
      */
-    public static endsWith<T = any>(key: ModelKeyName<T>, value: string, ignoreCase?: boolean): DataFilter<T> {
+    public static endsWith<T = any>(key: ModelFieldPath<T>, value: string, ignoreCase?: boolean): DataFilter<T> {
         let regex: RegExp;
 
         if (ignoreCase) {
@@ -179,7 +258,7 @@ export class DataFilter<T = any> {
      * @param value The value
      * @param ignoreCase true to ignore case
      */
-    public static contains<T = any>(key: ModelKeyName<T>, value: string, ignoreCase?: boolean): DataFilter<T> {
+    public static contains<T = any>(key: ModelFieldPath<T>, value: string, ignoreCase?: boolean): DataFilter<T> {
         let regex: RegExp;
 
         if (ignoreCase) {
@@ -206,15 +285,36 @@ export class DataFilter<T = any> {
         return new DataFilter(query);
     }
 
-    public query: GenericFilter<ModelKeyName<T>>;
+    /**
+     * Parses a filter serialized with toJSON.
+     * The input is validated, so it can come from an untrusted source.
+     * @param json The serialized filter (object or JSON string)
+     * @param options Optional. Validation options (max depth, allowed keys and operations).
+     */
+    public static fromJSON<T = any>(json: SerializedFilter | string, options?: FilterJSONOptions): DataFilter<T> {
+        return new DataFilter<T>(<GenericFilter<ModelFieldPath<T>>>parseSerializedFilter(json, options));
+    }
+
+    public query: GenericFilter<ModelFieldPath<T>>;
 
-    constructor(query: GenericFilter<ModelKeyName<T>>) {
+    constructor(query: GenericFilter<ModelFieldPath<T>>) {
         this.query = query || null;
     }
+
+    /**
+     * Serializes the filter, with a versioned format.
+     * Called by JSON.stringify.
+     * @returns The serialized filter
+     */
+    public toJSON(): SerializedFilter {
+        return serializeFilter(this.query);
+    }
 }
 
 /**
  * Order By
+ * Sorts by one or more fields, for example:
+ * OrderBy.asc("lastName").thenAsc("firstName")
  */
 export class OrderBy<T = any> {
 
@@ -222,7 +322,7 @@ export class OrderBy<T = any> {
      * Ascendant ordering
      * @param by Field to order by
      */
-    public static asc<T = any>(by: ModelKeyName<T>): OrderBy<T> {
+    public static asc<T = any>(by: ModelFieldPath<T>): OrderBy<T> {
         return new OrderBy(by, "asc");
     }
 
@@ -230,7 +330,7 @@ export class OrderBy<T = any> {
      * Descendant ordering
      * @param by Field to order by
      */
-    public static desc<T = any>(by: ModelKeyName<T>): OrderBy<T> {
+    public static desc<T = any>(by: ModelFieldPath<T>): OrderBy<T> {
         return new OrderBy(by, "desc");
     }
 
@@ -241,12 +341,74 @@ export class OrderBy<T = any> {
         return new OrderBy("", null);
     }
 
-    public by: ModelKeyName<T> | "";
+    /**
+     * First field to sort by ("" if not sorting)
+     */
+    public by: ModelFieldPath<T> | "";
+
+    /**
+     * Sort direction of the first field
+     */
     public dir: SortDirection;
 
-    constructor(by: ModelKeyName<T> | "", dir: SortDirection) {
+    /**
+     * List of sort keys
+     */
+    public keys: SortKey<ModelFieldPath<T>>[];
+
+    constructor(by: ModelFieldPath<T> | "", dir: SortDirection) {
         this.by = by;
         this.dir = dir;
+        this.keys = by ? [{ by: by, dir: dir === "desc" ? "desc" : "asc" }] : [];
+    }
+
+    /**
+     * Adds a field to sort by, in ascendant order
+     * Used when the previous fields are equal
+     * @param by Field to order by
+     */
+    public thenAsc(by: ModelFieldPath<T>): this {
+        return this.addKey(by, "asc");
+    }
+
+    /**
+     * Adds a field to sort by, in descendant order
+     * Used when the previous fields are equal
+     * @param by Field to order by
+     */
+    public thenDesc(by: ModelFieldPath<T>): this {
+        return this.addKey(by, "desc");
+    }
+
+    /**
+     * Places the null values of the last added field first
+     */
+    public nullsFirst(): this {
+        return this.setNulls("first");
+    }
+
+    /**
+     * Places the null values of the last added field last
+     */
+    public nullsLast(): this {
+        return this.setNulls("last");
+    }
+
+    private addKey(by: ModelFieldPath<T>, dir: "asc" | "desc"): this {
+        if (this.keys.length === 0) {
+            this.by = by;
+            this.dir = dir;
+        }
+        this.keys.push({ by: by, dir: dir });
+        return this;
+    }
+
+    private setNulls(nulls: NullsPlacement): this {
+        if (this.keys.length === 0) {
+            throw new Error("Cannot set the placement of null values: There are no fields to sort by.");
+        }
+        this.keys[this.keys.length - 1].nulls = nulls;
+        return this;
     }
 }
 
@@ -269,16 +431,18 @@ export class SelectOptions<T = any> {
         return new SelectOptions();
     }
 
-    public projection: Set<ModelKeyName<T>>;
+    public projection: Set<ModelFieldPath<T>>;
     public skip: number;
     public limit: number;
     public queryExtraOptions: QueryExtraOptions;
+    public relations: ModelKeyName<T>[];
 
     constructor() {
         this.projection = null;
         this.skip = -1;
         this.limit = -1;
         this.queryExtraOptions = {};
+        this.relations = [];
     }
 
     /**
@@ -303,11 +467,21 @@ export class SelectOptions<T = any> {
      * Select only a few fields (SELECT a,b,...)
      * @param cols The cols to select
      */
-    public fetchOnly(cols: ModelKeyName<T>[]): this {
+    public fetchOnly(cols: ModelFieldPath<T>[]): this {
         this.projection = new Set(cols);
         return this;
     }
 
+    /**
+     * Loads related instances (eager loading)
+     * The relations must be declared with decorators (@BelongsTo, @HasMany, @HasOne)
+     * @param relations The names of the relations to load
+     */
+    public include(relations: ModelKeyName<T>[]): this {
+        this.relations = this.relations.concat(relations);
+        return this;
+    }
+
     /**
      * Sets the name of the index to use
      * @param indexName Name of the index to use
@@ -328,35 +502,195 @@ export class DataUpdate {
      * Set value
      * @param value Value to set
      */
-    public static set(value: GenericValue): DataUpdate {
-        return new DataUpdate("set", value);
+    public static set(value: GenericValue): RowUpdateSet {
+        return <RowUpdateSet>new DataUpdate("set", value);
     }
 
     /**
      * Increment value
      * @param inc Increment to apply
      */
-    public static increment(inc: number): DataUpdate {
-        return new DataUpdate("inc", inc);
+    public static increment(inc: number): RowUpdateIncrement {
+        return <RowUpdateIncrement>new DataUpdate("inc", inc);
+    }
+
+    /**
+     * Remove value (set to null)
+     */
+    public static unset(): RowUpdateUnset {
+        return <RowUpdateUnset>new DataUpdate("unset", null);
+    }
+
+    /**
+     * Multiply value
+     * @param factor Factor to multiply by
+     */
+    public static multiply(factor: number): RowUpdateMultiply {
+        return <RowUpdateMultiply>new DataUpdate("mul", factor);
+    }
+
+    /**
+     * Set value only if lower than the current value (or the current value is null)
+     * @param value Value to compare
+     */
+    public static min<V = GenericValue>(value: V): RowUpdateMin<V> {
+        return <RowUpdateMin<V>>new DataUpdate("min", value);
+    }
+
+    /**
+     * Set value only if greater than the current value (or the current value is null)
+     * @param value Value to compare
+     */
+    public static max<V = GenericValue>(value: V): RowUpdateMax<V> {
+        return <RowUpdateMax<V>>new DataUpdate("max", value);
+    }
+
+    /**
+     * Append items to an array
+     * @param items Items to append
+     */
+    public static push<E = GenericValue>(...items: E[]): RowUpdatePush<E> {
+        return <RowUpdatePush<E>>new DataUpdate("push", items);
+    }
+
+    /**
+     * Remove all the occurrences of items from an array
+     * @param items Items to remove
+     */
+    public static pull<E = GenericValue>(...items: E[]): RowUpdatePull<E> {
+        return <RowUpdatePull<E>>new DataUpdate("pull", items);
+    }
+
+    /**
+     * Append items to an array, only if not already present
+     * @param items Items to add
+     */
+    public static addToSet<E = GenericValue>(...items: E[]): RowUpdateAddToSet<E> {
+        return <RowUpdateAddToSet<E>>new DataUpdate("addToSet", items);
+    }
+
+    /**
+     * Set value to the current date of the data source
+     */
+    public static currentDate(): RowUpdateCurrentDate {
+        return <RowUpdateCurrentDate>new DataUpdate("currentDate", null);
     }
 
-    public update: "set" | "inc";
+    public update: RowUpdateKind;
     public value: GenericValue;
 
-    constructor(update: "set" | "inc", value: GenericValue) {
+    constructor(update: RowUpdateKind, value: GenericValue) {
         this.update = update;
         this.value = value;
     }
 }
 
+/**
+ * Aggregation column
+ * Pass to DataFinder.aggregate
+ */
+export class Aggregation<T = any> {
+
+    /**
+     * Number of rows
+     * @param name Name of the column in the results. By default "count"
+     */
+    public static count<T = any>(name?: string): Aggregation<T> {
+        return new Aggregation<T>("count", null, name);
+    }
+
+    /**
+     * Number of distinct non-null values
+     * @param field Field to aggregate
+     * @param name Name of the column in the results. By default "countDistinct_{field}"
+     */
+    public static countDistinct<T = any>(field: ModelKeyName<T>, name?: string): Aggregation<T> {
+        return new Aggregation<T>("countDistinct", field, name);
+    }
+
+    /**
+     * Summation
+     * @param field Field to aggregate
+     * @param name Name of the column in the results. By default "sum_{field}"
+     */
+    public static sum<T = any>(field: ModelKeyName<T>, name?: string): Aggregation<T> {
+        return new Aggregation<T>("sum", field, name);
+    }
+
+    /**
+     * Average
+     * @param field Field to aggregate
+     * @param name Name of the column in the results. By default "avg_{field}"
+     */
+    public static avg<T = any>(field: ModelKeyName<T>, name?: string): Aggregation<T> {
+        return new Aggregation<T>("avg", field, name);
+    }
+
+    /**
+     * Minimum value
+     * @param field Field to aggregate
+     * @param name Name of the column in the results. By default "min_{field}"
+     */
+    public static min<T = any>(field: ModelKeyName<T>, name?: string): Aggregation<T> {
+        return new Aggregation<T>("min", field, name);
+    }
+
+    /**
+     * Maximum value
+     * @param field Field to aggregate
+     * @param name Name of the column in the results. By default "max_{field}"
+     */
+    public static max<T = any>(field: ModelKeyName<T>, name?: string): Aggregation<T> {
+        return new Aggregation<T>("max", field, name);
+    }
+
+    public name: string;
+    public fn: AggregationFunction;
+    public field: ModelKeyName<T>;
+
+    constructor(fn: AggregationFunction, field: ModelKeyName<T>, name?: string) {
+        this.fn = fn;
+        this.field = field;
+        this.name = name || (field ? fn + "_" + field : fn);
+    }
+}
+
 /**
  * Data finder
  */
 export class DataFinder<T, PK_Type = GenericKeyValue> {
+
+    /**
+     * Creates a finder for a data model declared with decorators (@Table, @PrimaryKey, @Field)
+     * @param model The data model class. Its constructor must receive the row data.
+     * @returns The finder
+     */
+    public static forModel<T, PK_Type = GenericKeyValue>(model: ModelClass<T>): DataFinder<T, PK_Type> {
+        const finder = new DataFinder<T, PK_Type>(null, null, null, (data: TypedRow<T>) => {
+            return new model(data);
+        });
+        onModelSchemaReady(model, schema => {
+            finder.source = schema.source;
+            finder.table = schema.table;
+            finder.key = <ModelKeyName<T>>schema.primaryKey;
+            finder.softDeleteField = <ModelKeyName<T>>schema.softDelete;
+            finder.updatedAtField = <ModelKeyName<T>>schema.updatedAt;
+            finder.createdAtField = <ModelKeyName<T>>schema.createdAt;
+            finder.versionField = <ModelKeyName<T>>schema.version;
+        });
+        return finder;
+    }
+
     private source: string;
     private table: string;
     private key: ModelKeyName<T>;
     private dataParse: (data: TypedRow<T>) => T;
+    private transaction: Transaction;
+    private softDeleteField: ModelKeyName<T>;
+    private updatedAtField: ModelKeyName<T>;
+    private createdAtField: ModelKeyName<T>;
+    private versionField: ModelKeyName<T>;
+    private deletedScope: "exclude" | "include" | "only";
 
     /**
      * Constructor
@@ -370,6 +704,79 @@ export class DataFinder<T, PK_Type = GenericKeyValue> {
         this.table = table;
         this.key = key;
         this.dataParse = dataParse;
+        this.transaction = null;
+        this.softDeleteField = null;
+        this.updatedAtField = null;
+        this.createdAtField = null;
+        this.versionField = null;
+        this.deletedScope = "exclude";
+    }
+
+    /**
+     * Creates a copy of the finder bound to a transaction.
+     * All the operations made with the returned finder are part of the transaction.
+     * @param transaction The transaction
+     * @returns The finder bound to the transaction
+     */
+    public withTransaction(transaction: Transaction): DataFinder<T, PK_Type> {
+        const finder = this.copy();
+        finder.transaction = transaction;
+        return finder;
+    }
+
+    /**
+     * Creates a copy of the finder including the soft-deleted instances.
+     * Only for data models with soft delete enabled (@SoftDelete).
+     * @returns The finder including the soft-deleted instances
+     */
+    public withDeleted(): DataFinder<T, PK_Type> {
+        const finder = this.copy();
+        finder.deletedScope = "include";
+        return finder;
+    }
+
+    /**
+     * Creates a copy of the finder only finding the soft-deleted instances.
+     * Only for data models with soft delete enabled (@SoftDelete).
+     * @returns The finder only finding the soft-deleted instances
+     */
+    public onlyDeleted(): DataFinder<T, PK_Type> {
+        const finder = this.copy();
+        finder.deletedScope = "only";
+        return finder;
+    }
+
+    private copy(): DataFinder<T, PK_Type> {
+        const finder = new DataFinder<T, PK_Type>(this.source, this.table, this.key, this.dataParse);
+        finder.transaction = this.transaction;
+        finder.softDeleteField = this.softDeleteField;
+        finder.updatedAtField = this.updatedAtField;
+        finder.createdAtField = this.createdAtField;
+        finder.versionField = this.versionField;
+        finder.deletedScope = this.deletedScope;
+        return finder;
+    }
+
+    /**
+     * Applies the soft delete scope to a filter
+     * @param where The filter
+     * @param deletedScope The scope. By default, the scope of the finder.
+     * @returns The filter, excluding or only including soft-deleted instances
+     */
+    private scope(where: DataFilter<T>, deletedScope?: "exclude" | "include" | "only"): GenericFilter {
+        deletedScope = deletedScope || this.deletedScope;
+
+        if (!this.softDeleteField || deletedScope === "include") {
+            return where.query;
+        }
+
+        const scopeFilter = deletedScope === "only" ? DataFilter.isNotNull<T>(this.softDeleteField) : DataFilter.isNull<T>(this.softDeleteField);
+
+        if (!where.query) {
+            return scopeFilter.query;
+        }
+
+        return DataFilter.and<T>(where, scopeFilter).query;
     }
 
     /**
@@ -377,7 +784,13 @@ export class DataFinder<T, PK_Type = GenericKeyValue> {
      * @param keyValue The value of the primary key
      */
     public async findByKey(keyValue: PK_Type): Promise<T> {
-        const data = await DataAccessObject.findByKey(this.source, this.table, this.key, keyValue);
+        const data = await DataAccessObject.findByKey(this.source, this.table, this.key, keyValue, this.transaction);
+        if (data && this.softDeleteField && this.deletedScope !== "include") {
+            const deleted = data[this.softDeleteField] !== null && data[this.softDeleteField] !== undefined;
+            if (deleted !== (this.deletedScope === "only")) {
+                return null;
+            }
+        }
         if (data) {
             return this.dataParse(data);
         } else {
@@ -394,18 +807,126 @@ export class DataFinder<T, PK_Type = GenericKeyValue> {
     public async find(where: DataFilter<T>, orderBy?: OrderBy<T>, options?: SelectOptions<T>): Promise<T[]> {
         const opts = options || (new SelectOptions());
         orderBy = orderBy || OrderBy.nothing();
-        const data = await DataAccessObject.find(this.source, this.table, where.query, orderBy.by, orderBy.dir, opts.skip, opts.limit, opts.projection, opts.queryExtraOptions);
+        const data = await DataAccessObject.find(this.source, this.table, this.scope(where), orderBy.by, orderBy.dir, opts.skip, opts.limit, opts.projection, getSortQueryOptions(orderBy, opts.queryExtraOptions), this.transaction);
         if (data) {
             const result: T[] = [];
             for (const doc of data) {
                 result.push(this.dataParse(doc));
             }
+            if (opts.relations.length > 0) {
+                await loadRelations(result, opts.relations, this.transaction);
+            }
             return Promise.resolve(result);
         } else {
             return [];
         }
     }
 
+    /**
+     * Find a page of instances, using keyset (cursor) pagination.
+     * The results are sorted by the orderBy field (only one), using the primary key as tie-breaker.
+     * Sorting by a field other than the primary key requires a driver supporting sort keys,
+     * since the primary key is sent to the driver as the second sort key.
+     * Rows with null values for the sort field are not included.
+     * @param where Conditions for the instances to match
+     * @param orderBy Order of the results. Leave as nothing to sort by the primary key.
+     * @param limit Max number of items in the page
+     * @param cursor Cursor returned by a previous call (nextCursor or prevCursor). Leave as null for the first page.
+     * @param options Additional options (skip and limit are ignored)
+     * @returns The page, with the cursors to fetch the next and previous pages
+     */
+    public async findPage(where: DataFilter<T>, orderBy: OrderBy<T>, limit: number, cursor?: string, options?: SelectOptions<T>): Promise<PageResult<T>> {
+        if (!this.key) {
+            throw new Error("Cannot paginate: A primary key is not set for this data model.");
+        }
+
+        if (orderBy && orderBy.keys.length > 1) {
+            throw new Error("Cannot paginate: Keyset pagination only supports sorting by a single field.");
+        }
+
+        const sortBy: string = (orderBy && orderBy.by) || this.key;
+        const sortDir = (orderBy && orderBy.by && orderBy.dir) || "asc";
+
+        if (sortBy !== this.key && !DataAccessObject.getCapabilities(this.source, this.transaction).sortKeys) {
+            // Without the primary key as second sort key, the order of the ties is not stable across pages
+            throw new Error("Cannot paginate: Sorting by a field other than the primary key requires a driver supporting sort keys.");
+        }
+
+        const decoded = cursor ? decodePageCursor(cursor) : null;
+
+        if (decoded && (decoded.sortBy !== sortBy || decoded.sortDir !== sortDir)) {
+            throw new Error("Invalid pagination cursor: The cursor was created for a different order.");
+        }
+
+        const backwards = !!decoded && decoded.direction === "prev";
+        const queryDir = backwards ? (sortDir === "desc" ? "asc" : "desc") : sortDir;
+
+        let filter = where;
+
+        if (sortBy !== this.key) {
+            // Null values cannot be compared with the cursor, so they are excluded from every page
+            filter = DataFilter.and<T>(filter, DataFilter.isNotNull(<ModelFieldPath<T>>sortBy));
+        }
+
+        if (decoded) {
+            filter = DataFilter.and<T>(filter, DataFilter.custom(makeKeysetFilter(sortBy, queryDir, this.key, decoded.value, decoded.key)));
+        }
+
+        const pageOptions = new SelectOptions<T>();
+
+        if (options) {
+            if (options.projection) {
+                pageOptions.fetchOnly(Array.from(options.projection).concat([<ModelFieldPath<T>>sortBy, this.key]));
+            }
+            pageOptions.queryExtraOptions = options.queryExtraOptions;
+            pageOptions.relations = options.relations;
+        }
+
+        pageOptions.setMaxRows(limit + 1);
+
+        const pageOrder = new OrderBy<T>(<ModelFieldPath<T>>sortBy, queryDir);
+
+        if (sortBy !== this.key) {
+            // Explicit tie-breaker
+            if (queryDir === "desc") {
+                pageOrder.thenDesc(this.key);
+            } else {
+                pageOrder.thenAsc(this.key);
+            }
+        }
+
+        const items = await this.find(filter, pageOrder, pageOptions);
+
+        const hasMore = items.length > limit;
+
+        if (hasMore) {
+            items.pop();
+        }
+
+        if (backwards) {
+            items.reverse();
+        }
+
+        const hasNext = backwards || hasMore;
+        const hasPrev = backwards ? hasMore : !!decoded;
+
+        const makeCursor = (direction: "next" | "prev", item: T): string => {
+            return encodePageCursor({
+                direction: direction,
+                sortBy: sortBy,
+                sortDir: sortDir,
+                value: getFieldPathValue(item, sortBy),
+                key: item[<string>this.key],
+            });
+        };
+
+        return {
+            items: items,
+            nextCursor: (hasNext && items.length > 0) ? makeCursor("next", items[items.length - 1]) : null,
+            prevCursor: (hasPrev && items.length > 0) ? makeCursor("prev", items[0]) : null,
+        };
+    }
+
     /**
      * Find instances (stream) / Async callback
      * @param where Conditions for the instances to match
@@ -414,9 +935,9 @@ export class DataFinder<T, PK_Type = GenericKeyValue> {
      * @param each Callback for each row
      */
     public async findStream(where: DataFilter<T>, orderBy: OrderBy<T>, options: SelectOptions<T>, each: (row: T) => Promise<void>): Promise<void> {
-        await DataAccessObject.findStream(this.source, this.table, where.query, orderBy.by, orderBy.dir, options.skip, options.limit, options.projection, options.queryExtraOptions, async function (doc) {
+        await DataAccessObject.findStream(this.source, this.table, this.scope(where), orderBy.by, orderBy.dir, options.skip, options.limit, options.projection, getSortQueryOptions(orderBy, options.queryExtraOptions), async function (doc) {
             await each(this.dataParse(doc))
-        }.bind(this));
+        }.bind(this), this.transaction);
     }
 
     /**
@@ -427,9 +948,43 @@ export class DataFinder<T, PK_Type = GenericKeyValue> {
      * @param each Callback for each row
      */
     public async findStreamSync(where: DataFilter<T>, orderBy: OrderBy<T>, options: SelectOptions<T>, each: (row: T) => void): Promise<void> {
-        await DataAccessObject.findStreamSync(this.source, this.table, where.query, orderBy.by, orderBy.dir, options.skip, options.limit, options.projection, options.queryExtraOptions, function (doc) {
+        await DataAccessObject.findStreamSync(this.source, this.table, this.scope(where), orderBy.by, orderBy.dir, options.skip, options.limit, options.projection, getSortQueryOptions(orderBy, options.queryExtraOptions), function (doc) {
             each(this.dataParse(doc))
-        }.bind(this));
+        }.bind(this), this.transaction);
+    }
+
+    /**
+     * Find instances (async iterator)
+     * The instances are fetched with the driver stream, one at a time.
+     * Stopping the iteration (break) cancels the driver stream.
+     * Relations (SelectOptions.include) are not supported, use find instead.
+     * @param where Conditions for the instances to match
+     * @param orderBy Order of the results
+     * @param options Additional options
+     * @returns The async iterable
+     */
+    public iterate(where: DataFilter<T>, orderBy?: OrderBy<T>, options?: SelectOptions<T>): AsyncIterableIterator<T> {
+        const opts = options || (new SelectOptions());
+        if (opts.relations.length > 0) {
+            throw new Error("Cannot iterate: Loading relations is not supported for streams. Use find instead.");
+        }
+        orderBy = orderBy || OrderBy.nothing();
+        return makeStreamIterator<T>(each => {
+            return this.findStream(where, orderBy, opts, each);
+        });
+    }
+
+    /**
+     * Find instances (readable stream, object mode)
+     * The stream supports backpressure. Destroying it cancels the driver stream.
+     * Relations (SelectOptions.include) are not supported, use find instead.
+     * @param where Conditions for the instances to match
+     * @param orderBy Order of the results
+     * @param options Additional options
+     * @returns The readable stream
+     */
+    public toReadable(where: DataFilter<T>, orderBy?: OrderBy<T>, options?: SelectOptions<T>): Readable {
+        return Readable.from(this.iterate(where, orderBy, options), { objectMode: true });
     }
 
     /**
@@ -438,7 +993,7 @@ export class DataFinder<T, PK_Type = GenericKeyValue> {
      * @param useIndex Name of the index to use. Leave as null for the database to figure out automatically.
      */
     public async count(where: DataFilter<T>, queryExtraOptions?: QueryExtraOptions): Promise<number> {
-        return DataAccessObject.count(this.source, this.table, where.query, queryExtraOptions || {});
+        return DataAccessObject.count(this.source, this.table, this.scope(where), queryExtraOptions || {}, this.transaction);
     }
 
     /**
@@ -447,23 +1002,162 @@ export class DataFinder<T, PK_Type = GenericKeyValue> {
      * @param where Conditions for the instances to match
      */
     public async sum(field: ModelKeyName<T>, where: DataFilter<T>): Promise<number> {
-        return DataAccessObject.sum(this.source, this.table, where.query, this.key, field);
+        return DataAccessObject.sum(this.source, this.table, this.scope(where), this.key, field, this.transaction);
+    }
+
+    /**
+     * Aggregation for instances
+     * @param aggregations Aggregation columns to compute
+     * @param where Conditions for the instances to match
+     * @param groupBy Fields to group by. Leave empty to aggregate all the instances into a single group.
+     * @param queryExtraOptions Additional query options
+     * @returns One row per group, with the values of the fields of groupBy and a value for each aggregation column
+     */
+    public async aggregate(aggregations: Aggregation<T>[], where: DataFilter<T>, groupBy?: ModelKeyName<T>[], queryExtraOptions?: QueryExtraOptions): Promise<GenericRow[]> {
+        return DataAccessObject.aggregate(this.source, this.table, this.scope(where), groupBy || [], aggregations, queryExtraOptions || {}, this.transaction);
+    }
+
+    /**
+     * Minimum value for instances
+     * @param field Field to aggregate
+     * @param where Conditions for the instances to match
+     * @returns The minimum value, or null if there are no values
+     */
+    public async min(field: ModelKeyName<T>, where: DataFilter<T>): Promise<GenericValue> {
+        return this.aggregateSingle(Aggregation.min(field), where);
+    }
+
+    /**
+     * Maximum value for instances
+     * @param field Field to aggregate
+     * @param where Conditions for the instances to match
+     * @returns The maximum value, or null if there are no values
+     */
+    public async max(field: ModelKeyName<T>, where: DataFilter<T>): Promise<GenericValue> {
+        return this.aggregateSingle(Aggregation.max(field), where);
+    }
+
+    /**
+     * Average for instances
+     * @param field Field to aggregate
+     * @param where Conditions for the instances to match
+     * @returns The average, or null if there are no values
+     */
+    public async avg(field: ModelKeyName<T>, where: DataFilter<T>): Promise<number> {
+        return this.aggregateSingle(Aggregation.avg(field), where);
+    }
+
+    /**
+     * Counts distinct values for instances
+     * @param field Field to aggregate
+     * @param where Conditions for the instances to match
+     * @returns The number of distinct non-null values
+     */
+    public async countDistinct(field: ModelKeyName<T>, where: DataFilter<T>): Promise<number> {
+        return this.aggregateSingle(Aggregation.countDistinct(field), where);
+    }
+
+    private async aggregateSingle(aggregation: Aggregation<T>, where: DataFilter<T>): Promise<GenericValue> {
+        const results = await this.aggregate([aggregation], where);
+        if (results.length > 0) {
+            return results[0][aggregation.name];
+        } else {
+            return null;
+        }
     }
 
     /**
      * Delete instances
+     * If soft delete is enabled, sets the deletion timestamp instead.
      * @param where Conditions for the instances to match
      */
     public async delete(where: DataFilter<T>): Promise<number> {
-        return DataAccessObject.deleteMany(this.source, this.table, where.query);
+        if (this.softDeleteField) {
+            const set: GenericRowUpdate = {};
+            set[this.softDeleteField] = DataAccessObject.getCurrentDate(this.source, this.transaction);
+            return DataAccessObject.updateMany(this.source, this.table, this.scope(where, "exclude"), set, this.transaction);
+        }
+        return DataAccessObject.deleteMany(this.source, this.table, where.query, this.transaction);
+    }
+
+    /**
+     * Delete instances, even if soft delete is enabled.
+     * Soft-deleted instances matching the conditions are deleted too.
+     * @param where Conditions for the instances to match
+     */
+    public async forceDelete(where: DataFilter<T>): Promise<number> {
+        return DataAccessObject.deleteMany(this.source, this.table, where.query, this.transaction);
+    }
+
+    /**
+     * Restores soft-deleted instances
+     * @param where Conditions for the instances to match
+     * @returns The number of restored instances
+     */
+    public async restore(where: DataFilter<T>): Promise<number> {
+        if (!this.softDeleteField) {
+            throw new Error("Cannot restore: Soft delete is not enabled for this data model.");
+        }
+        const set: GenericRowUpdate = {};
+        set[this.softDeleteField] = null;
+        return DataAccessObject.updateMany(this.source, this.table, this.scope(where, "only"), set, this.transaction);
+    }
+
+    /**
+     * Inserts many rows, or updates the existing ones with the same keys (primary key or a set of unique fields).
+     * The rows are upserted one by one, setting the version and the timestamps as DataModel.upsert does.
+     * If the driver does not support upserts natively, a non-atomic fallback is used (see DataAccessObject.upsert).
+     * @param rows The rows (or data model instances) to upsert
+     * @param keys Fields identifying each row. By default, the primary key.
+     * @param updated Optional. Updates to apply to the existing rows (set, inc). By default, all the fields of each row except the keys and the creation timestamp.
+     * @returns The number of inserted and updated rows
+     */
+    public async upsertMany(rows: TypedRow<T>[], keys?: ModelKeyName<T>[], updated?: StrictRowUpdate<T>): Promise<UpsertManyResult> {
+        const result: UpsertManyResult = { inserted: 0, updated: 0 };
+
+        for (const row of rows) {
+            const dao = new DataAccessObject(this.source, this.table, this.key, makeCopyOfObject(row));
+            dao.versionField = this.versionField || "";
+            dao.createdAtField = this.createdAtField || "";
+            dao.updatedAtField = this.updatedAtField || "";
+
+            const res = await dao.upsert(keys, updated, this.transaction);
+
+            if (res === "inserted") {
+                result.inserted++;
+            } else {
+                result.updated++;
+            }
+        }
+
+        return result;
     }
 
     /**
      * Update instances
+     * If soft delete is enabled, soft-deleted instances are not updated (unless using withDeleted or onlyDeleted).
+     * If the data model has an update timestamp (@UpdatedAt), it is set to the current date, unless included in the changes.
      * @param set Changes to make
      * @param where Conditions for the instances to match
      */
     public async update(set: StrictRowUpdate<T>, where: DataFilter<T>): Promise<number> {
-        return DataAccessObject.updateMany(this.source, this.table, where.query, set);
+        const updated: GenericRowUpdate = Object.assign({}, set);
+        if (this.updatedAtField && !(this.updatedAtField in updated)) {
+            updated[this.updatedAtField] = DataAccessObject.getCurrentDate(this.source, this.transaction);
+        }
+        return DataAccessObject.updateMany(this.source, this.table, this.scope(where), updated, this.transaction);
+    }
+}
+
+/**
+ * Adds the sort keys of an order to the query options
+ * @param orderBy The order
+ * @param queryExtraOptions The query options
+ * @returns The query options for the driver
+ */
+function getSortQueryOptions<T>(orderBy: OrderBy<T>, queryExtraOptions: QueryExtraOptions): QueryExtraOptions {
+    if (!orderBy.keys || orderBy.keys.length === 0) {
+        return queryExtraOptions;
     }
+    return Object.assign({}, queryExtraOptions, { sort: orderBy.keys.map(key => Object.assign({}, key)) });
 }
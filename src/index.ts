@@ -6,6 +6,21 @@
 export * from "./common";
 export * from "./data-source";
 export * from "./data-source-driver";
+export * from "./transaction";
+export * from "./middleware";
+export * from "./instrumentation";
 export * from "./finder";
+export * from "./filter-json";
+export * from "./filter-normalizer";
+export * from "./rest-query";
 export * from "./bean";
 export * from "./dao";
+export * from "./aggregation";
+export * from "./schema";
+export * from "./validation";
+export * from "./relations";
+export * from "./pagination";
+export * from "./stream";
+export * from "./memory-driver";
+export * from "./replica-driver";
+export * from "./sharded-driver";
@@ -0,0 +1,372 @@
+// Query instrumentation
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { performance } from "perf_hooks";
+import { GenericFilter, GenericRow, SortKey } from "./common";
+import { DataSource } from "./data-source";
+import { DriverMiddleware, DriverOperation } from "./middleware";
+import { StreamCancelledError } from "./stream";
+
+/**
+ * Name of a driver operation
+ */
+export type QueryOperationName = DriverOperation["operation"];
+
+/**
+ * Event emitted when a driver operation starts
+ */
+export interface QueryEvent {
+    /**
+     * Identifier of the operation, shared by its start and end (or error) events
+     */
+    id: number;
+
+    /**
+     * Name of the data source
+     */
+    dataSource: string;
+
+    /**
+     * Table or collection name
+     */
+    table: string;
+
+    /**
+     * Name of the driver operation
+     */
+    operation: QueryOperationName;
+
+    /**
+     * True if the operation is part of a transaction
+     */
+    transaction: boolean;
+
+    /**
+     * Optional. Filter of the operation (null to match all the rows)
+     */
+    filter?: GenericFilter;
+
+    /**
+     * Optional. Sort keys of the operation
+     */
+    sort?: SortKey[];
+
+    /**
+     * Optional. Number of rows to skip (-1 for no skip)
+     */
+    skip?: number;
+
+    /**
+     * Optional. Limit of rows (-1 for no limit)
+     */
+    limit?: number;
+}
+
+/**
+ * Event emitted when a driver operation finishes successfully
+ */
+export interface QueryEndEvent extends QueryEvent {
+    /**
+     * Duration of the operation, in milliseconds
+     */
+    duration: number;
+
+    /**
+     * Optional. Number of rows returned or counted (find, findStream, findByKey, count, aggregate)
+     */
+    rowCount?: number;
+
+    /**
+     * Optional. Number of rows affected (insert, batchInsert, upsert, updateMany, delete, deleteMany).
+     * For update and increment, only set if the driver resolves the count.
+     */
+    affectedRows?: number;
+
+    /**
+     * Optional. True if the consumer stopped the stream before its end (findStream, findStreamSync)
+     */
+    cancelled?: boolean;
+}
+
+/**
+ * Event emitted when a driver operation fails
+ */
+export interface QueryErrorEvent extends QueryEvent {
+    /**
+     * Duration of the operation, in milliseconds
+     */
+    duration: number;
+
+    /**
+     * The error thrown by the driver
+     */
+    error: Error;
+}
+
+/**
+ * Query events, by name
+ */
+export interface QueryEventMap {
+    start: QueryEvent;
+    end: QueryEndEvent;
+    error: QueryErrorEvent;
+}
+
+/**
+ * Name of a query event
+ */
+export type QueryEventName = keyof QueryEventMap;
+
+/**
+ * Query event listener
+ * @param event The event
+ */
+export type QueryEventListener<E extends QueryEventName = QueryEventName> = (event: QueryEventMap[E]) => void;
+
+/**
+ * Options for the slow query logger
+ */
+export interface SlowQueryLoggerOptions {
+    /**
+     * Minimum duration (in milliseconds) for a query to be logged
+     */
+    threshold: number;
+
+    /**
+     * Optional. Function to log the slow queries. By default, console.warn is used.
+     */
+    log?: (message: string, event: QueryEndEvent) => void;
+}
+
+/**
+ * Creates a listener for the "end" query event, logging the queries slower than a threshold.
+ * Usage: dataSource.addQueryListener("end", createSlowQueryLogger({ threshold: 500 }))
+ * @param options The options
+ * @returns The listener
+ */
+export function createSlowQueryLogger(options: SlowQueryLoggerOptions): QueryEventListener<"end"> {
+    const log = options.log || ((message: string) => console.warn(message));
+
+    return (event: QueryEndEvent) => {
+        if (event.duration < options.threshold) {
+            return;
+        }
+        log(describeSlowQuery(event), event);
+    };
+}
+
+/**
+ * Creates the middleware emitting the query events of a data source.
+ * Used internally by DataSource, as the last middleware of the chain,
+ * so the events describe the operations as they reach the driver.
+ * @param dataSource The data source
+ * @returns The middleware
+ */
+export function createInstrumentationMiddleware(dataSource: DataSource): DriverMiddleware {
+    return async (op, next, context) => {
+        if (!dataSource.hasQueryListeners()) {
+            return next(op);
+        }
+
+        const event: QueryEvent = {
+            id: nextQueryId++,
+            dataSource: context.dataSource,
+            table: op.table,
+            operation: op.operation,
+            transaction: context.transaction,
+        };
+
+        let rowCount = 0;
+
+        switch (op.operation) {
+        case "find":
+        case "findStream":
+        case "findStreamSync":
+            if (op.queryExtraOptions && op.queryExtraOptions.sort) {
+                event.sort = op.queryExtraOptions.sort;
+            } else if (op.sortBy) {
+                event.sort = [{ by: op.sortBy, dir: op.sortDir || "asc" }];
+            }
+            event.skip = op.skip;
+            event.limit = op.limit;
+            break;
+        }
+
+        if ("filter" in op) {
+            event.filter = op.filter;
+        }
+
+        // Count the streamed rows
+
+        if (op.operation === "findStream") {
+            const each = op.each;
+            op = Object.assign({}, op, {
+                each: (row: GenericRow) => {
+                    rowCount++;
+                    return each(row);
+                },
+            });
+        } else if (op.operation === "findStreamSync") {
+            const each = op.each;
+            op = Object.assign({}, op, {
+                each: (row: any) => {
+                    rowCount++;
+                    each(row);
+                },
+            });
+        }
+
+        dataSource.emitQueryEvent("start", copyQueryEvent(event));
+
+        const start = performance.now();
+        let result: any;
+
+        try {
+            result = await next(op);
+        } catch (ex) {
+            if (ex instanceof StreamCancelledError) {
+                // Stopping the iteration early is not a failure
+                dataSource.emitQueryEvent("end", Object.assign(copyQueryEvent(event), { duration: performance.now() - start, rowCount: rowCount, cancelled: true }));
+            } else {
+                dataSource.emitQueryEvent("error", Object.assign(copyQueryEvent(event), { duration: performance.now() - start, error: ex }));
+            }
+            throw ex;
+        }
+
+        const end: QueryEndEvent = Object.assign(copyQueryEvent(event), { duration: performance.now() - start });
+
+        switch (op.operation) {
+        case "findByKey":
+            end.rowCount = result ? 1 : 0;
+            break;
+        case "find":
+        case "aggregate":
+            end.rowCount = result.length;
+            break;
+        case "count":
+            end.rowCount = result;
+            break;
+        case "findStream":
+        case "findStreamSync":
+            end.rowCount = rowCount;
+            break;
+        case "insert":
+        case "upsert":
+            end.affectedRows = 1;
+            break;
+        case "batchInsert":
+            end.affectedRows = op.rows.length;
+            break;
+        case "updateMany":
+        case "deleteMany":
+            end.affectedRows = result;
+            break;
+        case "update":
+        case "increment":
+            // Only reported if the driver resolves the count
+            if (typeof result === "number") {
+                end.affectedRows = result;
+            }
+            break;
+        case "delete":
+            end.affectedRows = result ? 1 : 0;
+            break;
+        }
+
+        dataSource.emitQueryEvent("end", end);
+
+        return result;
+    };
+}
+
+let nextQueryId = 1;
+
+/**
+ * Copies a query event for the listeners,
+ * so they cannot change the filter or the sort keys used by the operation
+ * @param event The event
+ * @returns The copy
+ */
+function copyQueryEvent(event: QueryEvent): QueryEvent {
+    const copy = Object.assign({}, event);
+    if (event.filter !== undefined) {
+        copy.filter = copyFilterValue(event.filter);
+    }
+    if (event.sort) {
+        copy.sort = event.sort.map(key => Object.assign({}, key));
+    }
+    return copy;
+}
+
+/**
+ * Deep copies a value of a filter, keeping dates and regular expressions
+ * @param value The value
+ * @returns The copy
+ */
+function copyFilterValue(value: any): any {
+    if (value === null || typeof value !== "object") {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(copyFilterValue);
+    }
+    if (value instanceof Date) {
+        return new Date(value.getTime());
+    }
+    if (value instanceof RegExp) {
+        return new RegExp(value.source, value.flags);
+    }
+    const copy: any = {};
+    for (const key of Object.keys(value)) {
+        copy[key] = copyFilterValue(value[key]);
+    }
+    return copy;
+}
+
+/**
+ * Serializes a value of a filter for the slow query log
+ * @param key The key
+ * @param value The value
+ * @returns The value to serialize
+ */
+function serializeFilterValue(key: string, value: any): any {
+    if (typeof value === "bigint") {
+        return value.toString();
+    }
+    if (value instanceof RegExp) {
+        return { source: value.source, flags: value.flags };
+    }
+    return value;
+}
+
+function describeSlowQuery(event: QueryEndEvent): string {
+    let message = "Slow query (" + Math.round(event.duration) + " ms): " + event.operation + " on " + event.dataSource + "." + event.table;
+
+    if (event.filter !== undefined) {
+        message += " | filter: " + JSON.stringify(event.filter, serializeFilterValue);
+    }
+
+    if (event.sort) {
+        message += " | sort: " + event.sort.map(key => key.by + " " + key.dir + (key.nulls ? " nulls " + key.nulls : "")).join(", ");
+    }
+
+    if (event.skip > 0) {
+        message += " | skip: " + event.skip;
+    }
+
+    if (event.limit >= 0) {
+        message += " | limit: " + event.limit;
+    }
+
+    if (event.rowCount !== undefined) {
+        message += " | rows: " + event.rowCount;
+    }
+
+    if (event.affectedRows !== undefined) {
+        message += " | affected: " + event.affectedRows;
+    }
+
+    return message;
+}
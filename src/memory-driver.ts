@@ -0,0 +1,1064 @@
+// In-memory driver
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { Aggregator } from "./aggregation";
+import { AggregationColumn, GenericFilter, GenericKeyValue, GenericRow, GenericRowUpdate, GenericValue, SortDirection, SortKey, splitFieldPath, UpsertResult } from "./common";
+import { makeCopyOfObject } from "./dao";
+import { DataSource } from "./data-source";
+import { DataSourceDriver, DataSourceDriverCapabilities, QueryExtraOptions, TransactionDriver } from "./data-source-driver";
+import { compareRows, compareValues, escapeRegExp, getFieldPathValue, valuesDeepEqual, valuesEqual } from "./util";
+
+/**
+ * Index of a table stored in memory
+ */
+export interface MemoryIndexOptions {
+    /**
+     * Name of the indexed field
+     */
+    field: string;
+
+    /**
+     * True to reject rows with duplicated values for the field (null values are ignored)
+     */
+    unique?: boolean;
+}
+
+/**
+ * Options for a table stored in memory
+ */
+export interface MemoryTableOptions {
+    /**
+     * Name of the primary key. The primary key is always indexed and unique.
+     */
+    primaryKey?: string;
+
+    /**
+     * True to generate the value of the primary key when inserting rows without it.
+     * Generated keys are sequential integers starting at 1.
+     */
+    autoIncrement?: boolean;
+
+    /**
+     * Indexes of the table, mapped by index name
+     */
+    indexes?: { [name: string]: MemoryIndexOptions };
+}
+
+/**
+ * Options for the in-memory driver
+ */
+export interface MemoryDriverOptions {
+    /**
+     * Options for each table, mapped by table name.
+     * Tables not present here are created on demand, without primary key or indexes.
+     */
+    tables?: { [table: string]: MemoryTableOptions };
+}
+
+/**
+ * Row stored in memory
+ */
+interface MemoryRecord {
+    /**
+     * Insertion sequence number, used for the default ordering
+     */
+    seq: number;
+
+    /**
+     * Stored data
+     */
+    row: GenericRow;
+}
+
+/**
+ * Container for the tables stored in memory
+ */
+interface MemoryStore {
+    tables: Map<string, MemoryTable>;
+}
+
+/**
+ * Index stored in memory
+ */
+interface MemoryIndex {
+    field: string;
+    unique: boolean;
+    entries: Map<any, Set<MemoryRecord>>;
+}
+
+/**
+ * Writes made to a table inside a transaction, replayed on commit
+ */
+interface MemoryJournal {
+    /**
+     * Sequence number of the first row inserted by the transaction
+     */
+    baseSeq: number;
+
+    /**
+     * Sequence numbers of the updated rows
+     */
+    updated: Set<number>;
+
+    /**
+     * Sequence numbers of the removed rows
+     */
+    removed: Set<number>;
+}
+
+/**
+ * Table stored in memory
+ */
+class MemoryTable {
+    public name: string;
+    public options: MemoryTableOptions;
+    public records: MemoryRecord[];
+    public indexes: Map<string, MemoryIndex>;
+    public nextSeq: number;
+    public nextKey: number;
+
+    /**
+     * Writes made to the table (only for tables bound to a transaction)
+     */
+    public journal: MemoryJournal;
+
+    constructor(name: string, options: MemoryTableOptions) {
+        this.name = name;
+        this.options = options;
+        this.records = [];
+        this.indexes = new Map();
+        this.nextSeq = 1;
+        this.nextKey = 1;
+        this.journal = null;
+
+        if (options.primaryKey) {
+            this.indexes.set("PRIMARY", { field: options.primaryKey, unique: true, entries: new Map() });
+        }
+
+        for (const indexName of Object.keys(options.indexes || {})) {
+            const index = options.indexes[indexName];
+            this.indexes.set(indexName, { field: index.field, unique: !!index.unique, entries: new Map() });
+        }
+    }
+
+    /**
+     * Makes a copy of the table (data and indexes)
+     * @returns The copy
+     */
+    public clone(): MemoryTable {
+        const copy = new MemoryTable(this.name, this.options);
+        copy.nextSeq = this.nextSeq;
+        copy.nextKey = this.nextKey;
+        for (const record of this.records) {
+            const recordCopy: MemoryRecord = { seq: record.seq, row: makeCopyOfObject(record.row) };
+            copy.records.push(recordCopy);
+            copy.addToIndexes(recordCopy);
+        }
+        return copy;
+    }
+
+    /**
+     * Inserts a row
+     * @param row The row (already copied)
+     * @param key The name of the primary key (if any)
+     */
+    public insert(row: GenericRow, key: string): MemoryRecord {
+        const pk = this.options.primaryKey || key;
+
+        if (pk && this.options.autoIncrement) {
+            if (row[pk] === null || row[pk] === undefined) {
+                row[pk] = this.nextKey;
+                this.nextKey++;
+            } else if (typeof row[pk] === "number" && row[pk] >= this.nextKey) {
+                this.nextKey = Math.floor(row[pk]) + 1;
+            }
+        }
+
+        const record: MemoryRecord = { seq: this.nextSeq, row: row };
+
+        this.checkUnique(record, row);
+
+        this.nextSeq++;
+        this.records.push(record);
+        this.addToIndexes(record);
+
+        return record;
+    }
+
+    /**
+     * Updates rows.
+     * If any of the updates fails, none of them is applied.
+     * @param records The records to update
+     * @param updated The update to apply
+     */
+    public update(records: MemoryRecord[], updated: GenericRowUpdate) {
+        const oldRows = new Map<MemoryRecord, GenericRow>();
+        try {
+            for (const record of records) {
+                const newRow = applyRowUpdate(makeCopyOfObject(record.row), updated);
+
+                this.checkUnique(record, newRow);
+
+                this.removeFromIndexes(record);
+                oldRows.set(record, record.row);
+                record.row = newRow;
+                this.addToIndexes(record);
+            }
+        } catch (ex) {
+            for (const [record, oldRow] of oldRows) {
+                this.removeFromIndexes(record);
+                record.row = oldRow;
+                this.addToIndexes(record);
+            }
+            throw ex;
+        }
+        if (this.journal) {
+            for (const record of records) {
+                this.journal.updated.add(record.seq);
+            }
+        }
+    }
+
+    /**
+     * Replaces the row of a record
+     * @param record The record
+     * @param row The new row (already copied)
+     */
+    public replace(record: MemoryRecord, row: GenericRow) {
+        this.checkUnique(record, row);
+        this.removeFromIndexes(record);
+        record.row = row;
+        this.addToIndexes(record);
+    }
+
+    /**
+     * Removes rows
+     * @param records The records to remove
+     */
+    public remove(records: MemoryRecord[]) {
+        const toRemove = new Set(records);
+        for (const record of records) {
+            this.removeFromIndexes(record);
+            if (this.journal) {
+                this.journal.removed.add(record.seq);
+            }
+        }
+        this.records = this.records.filter(r => !toRemove.has(r));
+    }
+
+    /**
+     * Applies the writes of the same table made inside a transaction (see journal).
+     * Rows removed or updated by the transaction are removed or replaced (if they still exist),
+     * and rows inserted by the transaction are inserted.
+     * @param source The table bound to the transaction
+     */
+    public replay(source: MemoryTable) {
+        const journal = source.journal || { baseSeq: 1, updated: new Set<number>(), removed: new Set<number>() };
+        const records = new Map<number, MemoryRecord>();
+
+        for (const record of this.records) {
+            records.set(record.seq, record);
+        }
+
+        const removed = Array.from(journal.removed).filter(seq => seq < journal.baseSeq && records.has(seq)).map(seq => records.get(seq));
+
+        this.remove(removed);
+
+        for (const record of source.records) {
+            if (record.seq < journal.baseSeq && journal.updated.has(record.seq) && records.has(record.seq)) {
+                this.replace(records.get(record.seq), makeCopyOfObject(record.row));
+            }
+        }
+
+        for (const record of source.records) {
+            if (record.seq >= journal.baseSeq) {
+                this.insert(makeCopyOfObject(record.row), null);
+            }
+        }
+    }
+
+    /**
+     * Finds the records matching a filter
+     * @param filter The filter
+     * @param indexName The name of the index to use (optional)
+     * @returns The list of records, in insertion order
+     */
+    public find(filter: GenericFilter, indexName?: string): MemoryRecord[] {
+        let candidates: MemoryRecord[] = null;
+
+        if (indexName) {
+            const index = this.indexes.get(indexName);
+            if (!index) {
+                throw new Error("Index " + indexName + " not found for table " + this.name);
+            }
+            candidates = findIndexCandidates(index, filter);
+        } else {
+            for (const index of this.indexes.values()) {
+                candidates = findIndexCandidates(index, filter);
+                if (candidates) {
+                    break;
+                }
+            }
+        }
+
+        if (candidates) {
+            candidates = candidates.sort((a, b) => a.seq - b.seq);
+        } else {
+            candidates = this.records;
+        }
+
+        return candidates.filter(record => matchesFilter(record.row, filter));
+    }
+
+    private checkUnique(record: MemoryRecord, row: GenericRow) {
+        for (const [indexName, index] of this.indexes) {
+            if (!index.unique || row[index.field] === null || row[index.field] === undefined) {
+                continue;
+            }
+            const existing = index.entries.get(getIndexKey(row[index.field]));
+            if (existing) {
+                for (const other of existing) {
+                    if (other !== record) {
+                        throw new Error("Duplicated value for unique index " + indexName + " of table " + this.name + ": " + row[index.field]);
+                    }
+                }
+            }
+        }
+    }
+
+    private addToIndexes(record: MemoryRecord) {
+        for (const index of this.indexes.values()) {
+            const key = getIndexKey(record.row[index.field]);
+            if (!index.entries.has(key)) {
+                index.entries.set(key, new Set());
+            }
+            index.entries.get(key).add(record);
+        }
+    }
+
+    private removeFromIndexes(record: MemoryRecord) {
+        for (const index of this.indexes.values()) {
+            const key = getIndexKey(record.row[index.field]);
+            const entry = index.entries.get(key);
+            if (entry) {
+                entry.delete(record);
+                if (entry.size === 0) {
+                    index.entries.delete(key);
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Driver that stores the data in memory.
+ * Useful for testing without a database.
+ * Rows are copied when stored and when returned, so callers never share references with the stored data.
+ */
+export class MemoryDriver implements DataSourceDriver {
+
+    /**
+     * Creates a data source for this driver
+     * @param name Name of the data source
+     * @param options Driver options
+     * @returns The data source
+     */
+    public static createDataSource(name: string, options?: MemoryDriverOptions): DataSource {
+        return new DataSource(name, new MemoryDriver(options));
+    }
+
+    protected options: MemoryDriverOptions;
+    protected store: MemoryStore;
+
+    /**
+     * Constructor
+     * @param options Driver options
+     */
+    constructor(options?: MemoryDriverOptions) {
+        this.options = options || {};
+        this.store = { tables: new Map() };
+    }
+
+    /**
+     * Sets the options of a table. Removes any data stored in the table.
+     * @param table Table name
+     * @param options Table options
+     */
+    public defineTable(table: string, options: MemoryTableOptions) {
+        this.options = {
+            tables: Object.assign({}, this.options.tables || {}, { [table]: options }),
+        };
+        this.store.tables.delete(table);
+    }
+
+    /**
+     * Removes all the stored data
+     */
+    public clear() {
+        this.store.tables = new Map();
+    }
+
+    protected getTable(table: string): MemoryTable {
+        if (!this.store.tables.has(table)) {
+            const tableOptions = (this.options.tables || {})[table] || {};
+            this.store.tables.set(table, new MemoryTable(table, tableOptions));
+        }
+        return this.store.tables.get(table);
+    }
+
+    /**
+     * Gets the optional features supported by the driver
+     * @returns The capabilities
+     */
+    public getCapabilities(): DataSourceDriverCapabilities {
+        return {
+            updatePaths: true,
+            filterOperations: ["nin", "between", "containsAny", "containsAll", "size", "ieq", "like"],
+            sortKeys: true,
+        };
+    }
+
+    /**
+     * Starts a new transaction.
+     * The transaction works over a snapshot of the data, recording the rows it inserts, updates and removes.
+     * On commit, those writes are replayed over the stored data, keeping the changes made outside the transaction.
+     * If both the transaction and another writer update the same row, the version of the last commit is kept.
+     * @returns A driver bound to the transaction
+     */
+    public async beginTransaction(): Promise<TransactionDriver> {
+        const copy = new Map<string, MemoryTable>();
+        for (const [name, table] of this.store.tables) {
+            const tableCopy = table.clone();
+            tableCopy.journal = { baseSeq: tableCopy.nextSeq, updated: new Set(), removed: new Set() };
+            copy.set(name, tableCopy);
+        }
+        return new MemoryTransactionDriver(this.options, this.store, copy);
+    }
+
+    /**
+     * Finds a row by primary key
+     * @param table Table or collection name
+     * @param keyName Name of the key
+     * @param keyValue Value of the key
+     */
+    public async findByKey(table: string, keyName: string, keyValue: GenericKeyValue): Promise<GenericRow> {
+        const records = this.getTable(table).find({ operation: "eq", key: keyName, value: keyValue });
+        if (records.length > 0) {
+            return makeCopyOfObject(records[0].row);
+        } else {
+            return null;
+        }
+    }
+
+    /**
+     * Finds rows
+     * @param table Table or collection name
+     * @param filter Filter to apply
+     * @param sortBy Sort results by this field. Leave as null for default sorting
+     * @param sortDir "asc" or "desc". Leave as null for default sorting
+     * @param skip Number of rows to skip. Leave as -1 for no skip
+     * @param limit Limit of results. Leave as -1 for no limit
+     * @param projection List of fields to fetch from the table. Leave as null to fetch them all.
+     * @param queryExtraOptions Additional query options
+     */
+    public async find(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions): Promise<GenericRow[]> {
+        return this.query(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions);
+    }
+
+    /**
+     * Counts the number of rows matching a condition
+     * @param table Table or collection name
+     * @param filter Filter to apply
+     * @param queryExtraOptions Additional query options
+     */
+    public async count(table: string, filter: GenericFilter, queryExtraOptions: QueryExtraOptions): Promise<number> {
+        return this.getTable(table).find(filter, (queryExtraOptions || {}).indexName).length;
+    }
+
+    /**
+     * Finds rows (stream mode). You can parse each row with an ASYNC function
+     * @param table Table or collection name
+     * @param filter Filter to apply
+     * @param sortBy Sort results by this field. Leave as null for default sorting
+     * @param sortDir "asc" or "desc". Leave as null for default sorting
+     * @param skip Number of rows to skip. Leave as -1 for no skip
+     * @param limit Limit of results. Leave as -1 for no limit
+     * @param projection List of fields to fetch from the table. Leave as null to fetch them all.
+     * @param queryExtraOptions Additional query options
+     * @param each Function to parse each row
+     */
+    public async findStream(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, each: (row: GenericRow) => Promise<void>): Promise<void> {
+        const rows = this.query(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions);
+        for (const row of rows) {
+            await each(row);
+        }
+    }
+
+    /**
+     * Finds rows (stream mode). You can parse each row with a SYNC function
+     * @param table Table or collection name
+     * @param filter Filter to apply
+     * @param sortBy Sort results by this field. Leave as null for default sorting
+     * @param sortDir "asc" or "desc". Leave as null for default sorting
+     * @param skip Number of rows to skip. Leave as -1 for no skip
+     * @param limit Limit of results. Leave as -1 for no limit
+     * @param projection List of fields to fetch from the table. Leave as null to fetch them all.
+     * @param queryExtraOptions Additional query options
+     * @param each Function to parse each row
+     */
+    public async findStreamSync(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, each: (row: GenericRow) => void): Promise<void> {
+        const rows = this.query(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions);
+        for (const row of rows) {
+            each(row);
+        }
+    }
+
+    /**
+     * Inserts a row
+     * @param table Table or collection name
+     * @param row Row to insert
+     * @param key The name of the primary key (if any)
+     * @param callback Callback to set the value of the primary key after inserting (Optional, only if auto-generated key)
+     */
+    public async insert(table: string, row: GenericRow, key: string, callback?: (value: GenericKeyValue) => void): Promise<void> {
+        const record = this.getTable(table).insert(makeCopyOfObject(row), key);
+        if (callback && key) {
+            callback(makeCopyOfObject(record.row[key]));
+        }
+    }
+
+    /**
+     * Inserts many rows
+     * @param table Table or collection name
+     * @param rows List of rows to insert
+     */
+    public async batchInsert(table: string, rows: GenericRow[]): Promise<void> {
+        const t = this.getTable(table);
+        for (const row of rows) {
+            t.insert(makeCopyOfObject(row), null);
+        }
+    }
+
+    /**
+     * Updates a row
+     * @param table Table or collection name
+     * @param keyName Name of the key
+     * @param keyValue Value of the key
+     * @param updated Updated row
+     * @returns The number of affected rows
+     */
+    public async update(table: string, keyName: string, keyValue: GenericKeyValue, updated: GenericRowUpdate): Promise<number> {
+        const t = this.getTable(table);
+        const records = t.find({ operation: "eq", key: keyName, value: keyValue });
+        t.update(records, updated);
+        return records.length;
+    }
+
+    /**
+     * Updates many rows
+     * @param table Table or collection name
+     * @param filter Filter to apply
+     * @param updated Updated row
+     * @returns The number of affected rows
+     */
+    public async updateMany(table: string, filter: GenericFilter, updated: GenericRowUpdate): Promise<number> {
+        const t = this.getTable(table);
+        const records = t.find(filter);
+        t.update(records, updated);
+        return records.length;
+    }
+
+    /**
+     * Inserts a row, or updates it if a row with the same keys already exists
+     * @param table Table or collection name
+     * @param keys Fields identifying the row. Their values are taken from the row.
+     * @param row Row to insert if it does not exist
+     * @param updated Updates to apply if the row exists
+     * @returns "inserted" or "updated"
+     */
+    public async upsert(table: string, keys: string[], row: GenericRow, updated: GenericRowUpdate): Promise<UpsertResult> {
+        const t = this.getTable(table);
+        const records = t.find({
+            operation: "and",
+            children: keys.map(key => {
+                return { operation: "eq", key: key, value: row[key] };
+            }),
+        });
+        if (records.length > 0) {
+            t.update(records, updated);
+            return "updated";
+        }
+        t.insert(makeCopyOfObject(row), null);
+        return "inserted";
+    }
+
+    /**
+     * Deletes a row
+     * @param table Table or collection name
+     * @param keyName Name of the key
+     * @param keyValue Value of the key
+     * @returns true if the row was deleted, false if the row didn't exists
+     */
+    public async delete(table: string, keyName: string, keyValue: GenericKeyValue): Promise<boolean> {
+        const t = this.getTable(table);
+        const records = t.find({ operation: "eq", key: keyName, value: keyValue });
+        t.remove(records);
+        return records.length > 0;
+    }
+
+    /**
+     * Deletes many rows
+     * @param table Table or collection name
+     * @param filter Filter to apply
+     * @returns The number of affected rows
+     */
+    public async deleteMany(table: string, filter: GenericFilter): Promise<number> {
+        const t = this.getTable(table);
+        const records = t.find(filter);
+        t.remove(records);
+        return records.length;
+    }
+
+    /**
+     * Summation of many rows.
+     * Null and non-numeric values are ignored.
+     * @param table Table or collection name
+     * @param filter Filter to apply
+     * @param id Name of the primary key
+     * @param field Name of the field to aggregate
+     */
+    public async sum(table: string, filter: GenericFilter, id: string, field: string): Promise<number> {
+        let result = 0;
+        for (const record of this.getTable(table).find(filter)) {
+            const value = getFieldPathValue(record.row, field);
+            if (typeof value === "number") {
+                result += value;
+            } else if (typeof value === "bigint") {
+                result += Number(value);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Aggregation of many rows, grouped by a list of fields
+     * @param table Table or collection name
+     * @param filter Filter to apply
+     * @param groupBy List of fields to group by. Leave empty to aggregate all the rows into a single group.
+     * @param aggregations List of aggregation columns
+     * @param queryExtraOptions Additional query options
+     * @returns One row per group, with the values of the fields of groupBy and a value for each aggregation column
+     */
+    public async aggregate(table: string, filter: GenericFilter, groupBy: string[], aggregations: AggregationColumn[], queryExtraOptions: QueryExtraOptions): Promise<GenericRow[]> {
+        const aggregator = new Aggregator(groupBy, aggregations);
+        for (const record of this.getTable(table).find(filter, (queryExtraOptions || {}).indexName)) {
+            aggregator.add(record.row);
+        }
+        return aggregator.getResults().map(makeCopyOfObject);
+    }
+
+    /**
+     * Atomic increment
+     * @param table Table or collection name
+     * @param keyName The name of the key
+     * @param keyValue The value of the key
+     * @param prop The field to increment
+     * @param inc The amount to increment
+     * @returns The number of affected rows
+     */
+    public async increment(table: string, keyName: string, keyValue: GenericKeyValue, prop: string, inc: number): Promise<number> {
+        return this.update(table, keyName, keyValue, { [prop]: { update: "inc", value: inc } });
+    }
+
+    private query(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions): GenericRow[] {
+        const t = this.getTable(table);
+        let records = t.find(filter, (queryExtraOptions || {}).indexName);
+
+        const sort: SortKey[] = (queryExtraOptions && queryExtraOptions.sort) || (sortBy ? [{ by: sortBy, dir: sortDir === "desc" ? "desc" : "asc" }] : []);
+
+        if (sort.length > 0) {
+            const pk = t.options.primaryKey;
+            records = records.slice().sort((a, b) => {
+                const c = compareRows(a.row, b.row, sort);
+                if (c !== 0 || !pk) {
+                    return c;
+                }
+                // Primary key as tie-breaker
+                return sort[0].dir === "desc" ? -compareValues(a.row[pk], b.row[pk]) : compareValues(a.row[pk], b.row[pk]);
+            });
+        }
+
+        if (typeof skip === "number" && skip > 0) {
+            records = records.slice(skip);
+        }
+
+        if (typeof limit === "number" && limit >= 0) {
+            records = records.slice(0, limit);
+        }
+
+        return records.map(record => projectRow(record.row, projection));
+    }
+}
+
+/**
+ * Transaction driver for the in-memory driver
+ */
+class MemoryTransactionDriver extends MemoryDriver implements TransactionDriver {
+    private parentStore: MemoryStore;
+
+    constructor(options: MemoryDriverOptions, parentStore: MemoryStore, tables: Map<string, MemoryTable>) {
+        super(options);
+        this.parentStore = parentStore;
+        this.store = { tables: tables };
+    }
+
+    public async beginTransaction(): Promise<TransactionDriver> {
+        throw new Error("Nested transactions are not supported by the in-memory driver.");
+    }
+
+    /**
+     * Commits the transaction
+     */
+    public async commit(): Promise<void> {
+        const tables = this.store.tables;
+        this.store = { tables: new Map() };
+
+        // Replay over copies, so a failure (eg: duplicated unique value) leaves the stored data unchanged
+
+        const replayed = new Map<string, MemoryTable>();
+
+        for (const [name, table] of tables) {
+            const journal = table.journal;
+            if (journal && journal.updated.size === 0 && journal.removed.size === 0 && table.nextSeq === journal.baseSeq) {
+                continue; // No writes
+            }
+            const target = this.parentStore.tables.has(name) ? this.parentStore.tables.get(name).clone() : new MemoryTable(name, table.options);
+            target.replay(table);
+            replayed.set(name, target);
+        }
+
+        for (const [name, table] of replayed) {
+            this.parentStore.tables.set(name, table);
+        }
+    }
+
+    /**
+     * Rolls back the transaction
+     */
+    public async rollback(): Promise<void> {
+        this.store = { tables: new Map() };
+    }
+}
+
+function getIndexKey(value: GenericValue): any {
+    if (value === undefined) {
+        return null;
+    }
+    if (value instanceof Date) {
+        return "\u0000date:" + value.getTime();
+    }
+    return value;
+}
+
+function matchesFilter(row: GenericRow, filter: GenericFilter): boolean {
+    if (!filter) {
+        return true;
+    }
+
+    switch (filter.operation) {
+    case "and":
+        return filter.children.every(child => matchesFilter(row, child));
+    case "or":
+        return filter.children.some(child => matchesFilter(row, child));
+    case "not":
+        return !matchesFilter(row, filter.child);
+    }
+
+    const value = getFieldPathValue(row, filter.key);
+
+    switch (filter.operation) {
+    case "regex":
+        if (value === null || value === undefined) {
+            return false;
+        }
+        return filter.regexp.test("" + value);
+    case "in":
+        return filter.values.some(v => valuesEqual(value, v));
+    case "nin":
+        return !filter.values.some(v => valuesEqual(value, v));
+    case "between":
+        if (value === null || value === undefined || filter.min === null || filter.min === undefined || filter.max === null || filter.max === undefined) {
+            return false;
+        }
+        return compareValues(value, filter.min) >= 0 && compareValues(value, filter.max) <= 0;
+    case "containsAny":
+    case "containsAll":
+    {
+        if (!(value instanceof Array)) {
+            return false;
+        }
+        const contains = (v: GenericValue) => value.some(e => valuesEqual(e, v));
+        return filter.operation === "containsAny" ? filter.values.some(contains) : filter.values.every(contains);
+    }
+    case "size":
+        return value instanceof Array && value.length === filter.size;
+    case "ieq":
+        if (value === null || value === undefined || filter.value === null || filter.value === undefined) {
+            return false;
+        }
+        return ("" + value).toLowerCase() === ("" + filter.value).toLowerCase();
+    case "like":
+        if (value === null || value === undefined) {
+            return false;
+        }
+        return likePatternToRegExp(filter.pattern, filter.ignoreCase).test("" + value);
+    case "exists":
+        if (filter.exists) {
+            return value !== null && value !== undefined;
+        } else {
+            return value === null || value === undefined;
+        }
+    case "eq":
+        return valuesEqual(value, filter.value);
+    case "ne":
+        return !valuesEqual(value, filter.value);
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte":
+    {
+        if (value === null || value === undefined || filter.value === null || filter.value === undefined) {
+            return false;
+        }
+        const c = compareValues(value, filter.value);
+        switch (filter.operation) {
+        case "gt":
+            return c > 0;
+        case "gte":
+            return c >= 0;
+        case "lt":
+            return c < 0;
+        default:
+            return c <= 0;
+        }
+    }
+    default:
+        return false;
+    }
+}
+
+/**
+ * Copies a row, keeping only the fields of a projection.
+ * For dotted paths (eg: "address.city"), only the nested value is kept.
+ * @param source The row
+ * @param projection The projection. Null to keep all the fields.
+ * @returns The copy of the row
+ */
+function projectRow(source: GenericRow, projection: Set<string>): GenericRow {
+    const row = Object.create(null);
+
+    for (const key of Object.keys(source)) {
+        if (!projection || projection.has(key)) {
+            row[key] = makeCopyOfObject(source[key]);
+        }
+    }
+
+    if (projection) {
+        for (const path of projection) {
+            if (path.indexOf(".") === -1 || Object.prototype.hasOwnProperty.call(source, path)) {
+                continue;
+            }
+            const value = getFieldPathValue(source, path);
+            if (value !== undefined) {
+                applyPathUpdate(row, splitFieldPath(path), false, value);
+            }
+        }
+    }
+
+    return row;
+}
+
+/**
+ * Converts a wildcard pattern (like) to a regular expression
+ * @param pattern The pattern
+ * @param ignoreCase True to ignore case
+ * @returns The regular expression
+ */
+function likePatternToRegExp(pattern: string, ignoreCase: boolean): RegExp {
+    let source = "";
+
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern.charAt(i);
+        if (c === "\\" && i + 1 < pattern.length) {
+            i++;
+            source += escapeRegExp(pattern.charAt(i));
+        } else if (c === "%") {
+            source += "[\\s\\S]*";
+        } else if (c === "_") {
+            source += "[\\s\\S]";
+        } else {
+            source += escapeRegExp(c);
+        }
+    }
+
+    return new RegExp("^" + source + "$", ignoreCase ? "i" : "");
+}
+
+/**
+ * Finds the candidate records for a filter using an index
+ * @param index The index
+ * @param filter The filter
+ * @returns The list of candidates, or null if the index cannot be used for the filter
+ */
+function findIndexCandidates(index: MemoryIndex, filter: GenericFilter): MemoryRecord[] {
+    if (!filter) {
+        return null;
+    }
+
+    switch (filter.operation) {
+    case "eq":
+        if (filter.key !== index.field) {
+            return null;
+        }
+        return Array.from(index.entries.get(getIndexKey(filter.value)) || []);
+    case "in":
+    {
+        if (filter.key !== index.field) {
+            return null;
+        }
+        const result = new Set<MemoryRecord>();
+        for (const value of filter.values) {
+            for (const record of (index.entries.get(getIndexKey(value)) || [])) {
+                result.add(record);
+            }
+        }
+        return Array.from(result);
+    }
+    case "and":
+        for (const child of filter.children) {
+            const candidates = findIndexCandidates(index, child);
+            if (candidates) {
+                return candidates;
+            }
+        }
+        return null;
+    default:
+        return null;
+    }
+}
+
+/**
+ * Applies an update to a row
+ * @param row The row
+ * @param updated The update
+ * @returns The updated row
+ */
+function applyRowUpdate(row: GenericRow, updated: GenericRowUpdate): GenericRow {
+    for (const key of Object.keys(updated)) {
+        const update = updated[key];
+
+        if (typeof update !== "object" || update === null || typeof update.update !== "string") {
+            row[key] = makeCopyOfObject(update);
+            continue;
+        }
+
+        const current = row[key];
+
+        switch (update.update) {
+        case "set":
+            row[key] = makeCopyOfObject(update.value);
+            break;
+        case "unset":
+            row[key] = null;
+            break;
+        case "inc":
+            if (typeof current === "bigint") {
+                row[key] = current + BigInt(update.value);
+            } else {
+                row[key] = (typeof current === "number" ? current : 0) + update.value;
+            }
+            break;
+        case "mul":
+            if (typeof current === "bigint") {
+                row[key] = current * BigInt(update.value);
+            } else {
+                row[key] = (typeof current === "number" ? current : 0) * update.value;
+            }
+            break;
+        case "min":
+            if (current === null || current === undefined || compareValues(update.value, current) < 0) {
+                row[key] = makeCopyOfObject(update.value);
+            }
+            break;
+        case "max":
+            if (current === null || current === undefined || compareValues(update.value, current) > 0) {
+                row[key] = makeCopyOfObject(update.value);
+            }
+            break;
+        case "push":
+            row[key] = getArrayValue(key, current).concat(makeCopyOfObject(update.value));
+            break;
+        case "pull":
+            row[key] = getArrayValue(key, current).filter(item => !update.value.some(v => valuesDeepEqual(item, v)));
+            break;
+        case "addToSet":
+        {
+            const items = getArrayValue(key, current);
+            for (const item of update.value) {
+                if (!items.some(v => valuesDeepEqual(item, v))) {
+                    items.push(makeCopyOfObject(item));
+                }
+            }
+            row[key] = items;
+            break;
+        }
+        case "currentDate":
+            // Only reached when the driver is called directly (the data access object uses the data source clock)
+            row[key] = new Date();
+            break;
+        case "paths":
+            if (typeof current === "object" && current !== null && !(current instanceof Array) && !(current instanceof Date)) {
+                for (const change of update.paths) {
+                    applyPathUpdate(row, change.path.split("."), !!change.unset, change.value);
+                }
+            } else {
+                row[key] = makeCopyOfObject(update.value);
+            }
+            break;
+        default:
+            row[key] = makeCopyOfObject(update);
+        }
+    }
+    return row;
+}
+
+function getArrayValue(key: string, value: GenericValue): GenericValue[] {
+    if (value === null || value === undefined) {
+        return [];
+    }
+    if (!(value instanceof Array)) {
+        throw new Error("Cannot apply an array update to the field " + key + ": The current value is not an array.");
+    }
+    return value;
+}
+
+function applyPathUpdate(row: GenericRow, path: string[], unset: boolean, value: GenericValue) {
+    let current = row;
+    for (let i = 0; i < path.length - 1; i++) {
+        if (typeof current[path[i]] !== "object" || current[path[i]] === null || current[path[i]] instanceof Array || current[path[i]] instanceof Date) {
+            if (unset) {
+                return; // Nothing to remove
+            }
+            current[path[i]] = Object.create(null);
+        }
+        current = current[path[i]];
+    }
+    const last = path[path.length - 1];
+    if (unset) {
+        delete current[last];
+    } else {
+        current[last] = makeCopyOfObject(value);
+    }
+}
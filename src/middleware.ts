@@ -0,0 +1,428 @@
+// Driver middleware
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { AggregationColumn, GenericFilter, GenericKeyValue, GenericRow, GenericRowUpdate, GenericValue, SortDirection, UpsertResult } from "./common";
+import { DataSource } from "./data-source";
+import { DataSourceDriver, DataSourceDriverCapabilities, QueryExtraOptions, TransactionDriver } from "./data-source-driver";
+import { createInstrumentationMiddleware } from "./instrumentation";
+
+/**
+ * Finds a row by primary key
+ */
+export interface DriverFindByKeyOperation {
+    operation: "findByKey";
+    table: string;
+    keyName: string;
+    keyValue: GenericValue;
+}
+
+/**
+ * Finds rows
+ */
+export interface DriverFindOperation {
+    operation: "find";
+    table: string;
+    filter: GenericFilter;
+    sortBy: string;
+    sortDir: SortDirection;
+    skip: number;
+    limit: number;
+    projection: Set<string>;
+    queryExtraOptions: QueryExtraOptions;
+}
+
+/**
+ * Counts rows
+ */
+export interface DriverCountOperation {
+    operation: "count";
+    table: string;
+    filter: GenericFilter;
+    queryExtraOptions: QueryExtraOptions;
+}
+
+/**
+ * Finds rows (stream mode, async callback)
+ */
+export interface DriverFindStreamOperation {
+    operation: "findStream";
+    table: string;
+    filter: GenericFilter;
+    sortBy: string;
+    sortDir: SortDirection;
+    skip: number;
+    limit: number;
+    projection: Set<string>;
+    queryExtraOptions: QueryExtraOptions;
+    each: (row: GenericRow) => Promise<void>;
+}
+
+/**
+ * Finds rows (stream mode, sync callback)
+ */
+export interface DriverFindStreamSyncOperation {
+    operation: "findStreamSync";
+    table: string;
+    filter: GenericFilter;
+    sortBy: string;
+    sortDir: SortDirection;
+    skip: number;
+    limit: number;
+    projection: Set<string>;
+    queryExtraOptions: QueryExtraOptions;
+    each: (row: any) => void;
+}
+
+/**
+ * Inserts a row
+ */
+export interface DriverInsertOperation {
+    operation: "insert";
+    table: string;
+    row: GenericRow;
+    key: string;
+    callback?: (value: GenericKeyValue) => void;
+}
+
+/**
+ * Inserts many rows
+ */
+export interface DriverBatchInsertOperation {
+    operation: "batchInsert";
+    table: string;
+    rows: GenericRow[];
+}
+
+/**
+ * Updates a row
+ */
+export interface DriverUpdateOperation {
+    operation: "update";
+    table: string;
+    keyName: string;
+    keyValue: GenericKeyValue;
+    updated: GenericRow;
+}
+
+/**
+ * Updates many rows
+ */
+export interface DriverUpdateManyOperation {
+    operation: "updateMany";
+    table: string;
+    filter: GenericFilter;
+    updated: GenericRowUpdate;
+}
+
+/**
+ * Inserts or updates a row
+ */
+export interface DriverUpsertOperation {
+    operation: "upsert";
+    table: string;
+    keys: string[];
+    row: GenericRow;
+    updated: GenericRowUpdate;
+}
+
+/**
+ * Deletes a row
+ */
+export interface DriverDeleteOperation {
+    operation: "delete";
+    table: string;
+    keyName: string;
+    keyValue: GenericKeyValue;
+}
+
+/**
+ * Deletes many rows
+ */
+export interface DriverDeleteManyOperation {
+    operation: "deleteMany";
+    table: string;
+    filter: GenericFilter;
+}
+
+/**
+ * Summation of many rows
+ */
+export interface DriverSumOperation {
+    operation: "sum";
+    table: string;
+    filter: GenericFilter;
+    id: string;
+    field: string;
+}
+
+/**
+ * Aggregation of many rows
+ */
+export interface DriverAggregateOperation {
+    operation: "aggregate";
+    table: string;
+    filter: GenericFilter;
+    groupBy: string[];
+    aggregations: AggregationColumn[];
+    queryExtraOptions: QueryExtraOptions;
+}
+
+/**
+ * Atomic increment
+ */
+export interface DriverIncrementOperation {
+    operation: "increment";
+    table: string;
+    keyName: string;
+    keyValue: GenericKeyValue;
+    prop: string;
+    inc: number;
+}
+
+/**
+ * Description of an operation sent to a driver.
+ * The properties match the arguments of the DataSourceDriver method with the same name.
+ */
+export type DriverOperation = DriverFindByKeyOperation | DriverFindOperation | DriverCountOperation | DriverFindStreamOperation | DriverFindStreamSyncOperation |
+    DriverInsertOperation | DriverBatchInsertOperation | DriverUpdateOperation | DriverUpdateManyOperation | DriverUpsertOperation |
+    DriverDeleteOperation | DriverDeleteManyOperation | DriverSumOperation | DriverAggregateOperation | DriverIncrementOperation;
+
+/**
+ * Result of each driver operation, by name
+ */
+export interface DriverOperationResultMap {
+    findByKey: GenericRow;
+    find: GenericRow[];
+    count: number;
+    findStream: void;
+    findStreamSync: void;
+    insert: void;
+    batchInsert: void;
+    update: void | number;
+    updateMany: number;
+    upsert: UpsertResult;
+    delete: boolean;
+    deleteMany: number;
+    sum: number;
+    aggregate: GenericRow[];
+    increment: void | number;
+}
+
+/**
+ * Result of a driver operation
+ */
+export type DriverOperationResult<O extends DriverOperation = DriverOperation> = DriverOperationResultMap[O["operation"]];
+
+/**
+ * Context of a driver operation
+ */
+export interface DriverMiddlewareContext {
+    /**
+     * Name of the data source
+     */
+    dataSource: string;
+
+    /**
+     * True if the operation is part of a transaction
+     */
+    transaction: boolean;
+}
+
+/**
+ * Runs the next middleware of the chain (or the driver, for the last one)
+ * @param operation The operation (it can be a modified copy of the received one)
+ * @returns The result of the operation
+ */
+export type DriverMiddlewareNext = <O extends DriverOperation>(operation: O) => Promise<DriverOperationResult<O>>;
+
+/**
+ * Driver middleware. Intercepts the operations sent to the driver of a data source.
+ * A middleware can:
+ *  - Modify the operation, calling next() with a modified copy
+ *  - Short-circuit the operation, returning a result (or throwing an error) without calling next()
+ *  - Post-process the result returned by next()
+ * @param operation The operation
+ * @param next Function to run the rest of the chain
+ * @param context The context of the operation
+ * @returns The result of the operation
+ */
+export type DriverMiddleware = (operation: DriverOperation, next: DriverMiddlewareNext, context: DriverMiddlewareContext) => Promise<any>;
+
+/**
+ * Runs an operation with a driver
+ * @param driver The driver
+ * @param op The operation
+ * @returns The result of the operation
+ */
+export function runDriverOperation<O extends DriverOperation>(driver: DataSourceDriver, op: O): Promise<DriverOperationResult<O>>;
+export async function runDriverOperation(driver: DataSourceDriver, op: DriverOperation): Promise<any> {
+    switch (op.operation) {
+    case "findByKey":
+        return driver.findByKey(op.table, op.keyName, op.keyValue);
+    case "find":
+        return driver.find(op.table, op.filter, op.sortBy, op.sortDir, op.skip, op.limit, op.projection, op.queryExtraOptions);
+    case "count":
+        return driver.count(op.table, op.filter, op.queryExtraOptions);
+    case "findStream":
+        return driver.findStream(op.table, op.filter, op.sortBy, op.sortDir, op.skip, op.limit, op.projection, op.queryExtraOptions, op.each);
+    case "findStreamSync":
+        return driver.findStreamSync(op.table, op.filter, op.sortBy, op.sortDir, op.skip, op.limit, op.projection, op.queryExtraOptions, op.each);
+    case "insert":
+        return driver.insert(op.table, op.row, op.key, op.callback);
+    case "batchInsert":
+        return driver.batchInsert(op.table, op.rows);
+    case "update":
+        return driver.update(op.table, op.keyName, op.keyValue, op.updated);
+    case "updateMany":
+        return driver.updateMany(op.table, op.filter, op.updated);
+    case "upsert":
+        if (!driver.upsert) {
+            throw new Error("The driver does not support the operation: upsert");
+        }
+        return driver.upsert(op.table, op.keys, op.row, op.updated);
+    case "delete":
+        return driver.delete(op.table, op.keyName, op.keyValue);
+    case "deleteMany":
+        return driver.deleteMany(op.table, op.filter);
+    case "sum":
+        return driver.sum(op.table, op.filter, op.id, op.field);
+    case "aggregate":
+        if (!driver.aggregate) {
+            throw new Error("The driver does not support the operation: aggregate");
+        }
+        return driver.aggregate(op.table, op.filter, op.groupBy, op.aggregations, op.queryExtraOptions);
+    case "increment":
+        return driver.increment(op.table, op.keyName, op.keyValue, op.prop, op.inc);
+    default:
+        throw new Error("Unknown driver operation: " + (<any>op).operation);
+    }
+}
+
+/**
+ * Driver wrapping the driver of a data source,
+ * to run its operations through the middleware chain of the data source.
+ * The query events (see DataSource.addQueryListener) are emitted by the last middleware of the chain.
+ * Used internally by DataSource.
+ */
+export class MiddlewareDriver implements TransactionDriver {
+    public upsert?: (table: string, keys: string[], row: GenericRow, updated: GenericRowUpdate) => Promise<UpsertResult>;
+
+    public aggregate?: (table: string, filter: GenericFilter, groupBy: string[], aggregations: AggregationColumn[], queryExtraOptions: QueryExtraOptions) => Promise<GenericRow[]>;
+
+    private dataSource: DataSource;
+    private driver: DataSourceDriver;
+    private context: DriverMiddlewareContext;
+    private instrumentation: DriverMiddleware;
+
+    /**
+     * Constructor
+     * @param dataSource The data source
+     * @param driver The driver to wrap
+     * @param transaction True if the driver is bound to a transaction
+     */
+    constructor(dataSource: DataSource, driver: DataSourceDriver, transaction: boolean) {
+        this.dataSource = dataSource;
+        this.driver = driver;
+        this.context = { dataSource: dataSource.name, transaction: transaction };
+        this.instrumentation = createInstrumentationMiddleware(dataSource);
+
+        // Optional operations are only available if the wrapped driver implements them
+
+        if (driver.upsert) {
+            this.upsert = (table, keys, row, updated) => {
+                return this.run({ operation: "upsert", table, keys, row, updated });
+            };
+        }
+
+        if (driver.aggregate) {
+            this.aggregate = (table, filter, groupBy, aggregations, queryExtraOptions) => {
+                return this.run({ operation: "aggregate", table, filter, groupBy, aggregations, queryExtraOptions });
+            };
+        }
+    }
+
+    public getCapabilities(): DataSourceDriverCapabilities {
+        return this.driver.getCapabilities ? (this.driver.getCapabilities() || {}) : {};
+    }
+
+    public async commit(): Promise<void> {
+        return (<TransactionDriver>this.driver).commit();
+    }
+
+    public async rollback(): Promise<void> {
+        return (<TransactionDriver>this.driver).rollback();
+    }
+
+    public async findByKey(table: string, keyName: string, keyValue: GenericValue): Promise<GenericRow> {
+        return this.run({ operation: "findByKey", table, keyName, keyValue });
+    }
+
+    public async find(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions): Promise<GenericRow[]> {
+        return this.run({ operation: "find", table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions });
+    }
+
+    public async count(table: string, filter: GenericFilter, queryExtraOptions: QueryExtraOptions): Promise<number> {
+        return this.run({ operation: "count", table, filter, queryExtraOptions });
+    }
+
+    public async findStream(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, each: (row: GenericRow) => Promise<void>): Promise<void> {
+        return this.run({ operation: "findStream", table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions, each });
+    }
+
+    public async findStreamSync(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, each: (row: any) => void): Promise<void> {
+        return this.run({ operation: "findStreamSync", table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions, each });
+    }
+
+    public async insert(table: string, row: GenericRow, key: string, callback?: (value: GenericKeyValue) => void): Promise<void> {
+        return this.run({ operation: "insert", table, row, key, callback });
+    }
+
+    public async batchInsert(table: string, rows: GenericRow[]): Promise<void> {
+        return this.run({ operation: "batchInsert", table, rows });
+    }
+
+    public async update(table: string, keyName: string, keyValue: GenericKeyValue, updated: GenericRow): Promise<void | number> {
+        return this.run({ operation: "update", table, keyName, keyValue, updated });
+    }
+
+    public async updateMany(table: string, filter: GenericFilter, updated: GenericRowUpdate): Promise<number> {
+        return this.run({ operation: "updateMany", table, filter, updated });
+    }
+
+    public async delete(table: string, keyName: string, keyValue: GenericKeyValue): Promise<boolean> {
+        return this.run({ operation: "delete", table, keyName, keyValue });
+    }
+
+    public async deleteMany(table: string, filter: GenericFilter): Promise<number> {
+        return this.run({ operation: "deleteMany", table, filter });
+    }
+
+    public async sum(table: string, filter: GenericFilter, id: string, field: string): Promise<number> {
+        return this.run({ operation: "sum", table, filter, id, field });
+    }
+
+    public async increment(table: string, keyName: string, keyValue: GenericKeyValue, prop: string, inc: number): Promise<void | number> {
+        return this.run({ operation: "increment", table, keyName, keyValue, prop, inc });
+    }
+
+    /**
+     * Runs an operation through the middleware chain
+     * @param op The operation
+     * @returns The result of the operation
+     */
+    private async run<O extends DriverOperation>(op: O): Promise<DriverOperationResult<O>> {
+        const chain = this.dataSource.getMiddlewares();
+        chain.push(this.instrumentation);
+
+        const dispatch = (index: number, operation: DriverOperation): Promise<any> => {
+            if (index >= chain.length) {
+                return runDriverOperation(this.driver, operation);
+            }
+            return chain[index](operation, nextOperation => dispatch(index + 1, nextOperation), this.context);
+        };
+
+        return dispatch(0, op);
+    }
+}
@@ -0,0 +1,153 @@
+// Keyset pagination
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { GenericFilter, GenericKeyValue, GenericValue, SortDirection } from "./common";
+
+/**
+ * Page of results, from keyset (cursor) pagination
+ */
+export interface PageResult<T> {
+    /**
+     * Items of the page
+     */
+    items: T[];
+
+    /**
+     * Cursor to fetch the next page, or null if this is the last page
+     */
+    nextCursor: string;
+
+    /**
+     * Cursor to fetch the previous page, or null if this is the first page
+     */
+    prevCursor: string;
+}
+
+/**
+ * Decoded pagination cursor
+ */
+export interface PageCursor {
+    /**
+     * Direction to paginate from the cursor
+     */
+    direction: "next" | "prev";
+
+    /**
+     * Field used to sort
+     */
+    sortBy: string;
+
+    /**
+     * Sort direction
+     */
+    sortDir: SortDirection;
+
+    /**
+     * Value of the sort field for the row at the cursor
+     */
+    value: GenericValue;
+
+    /**
+     * Value of the primary key for the row at the cursor
+     */
+    key: GenericKeyValue;
+}
+
+/**
+ * Encodes a pagination cursor as an opaque string
+ * @param cursor The cursor
+ * @returns The encoded cursor (URL safe)
+ */
+export function encodePageCursor(cursor: PageCursor): string {
+    const json = JSON.stringify([cursor.direction, cursor.sortBy, cursor.sortDir, encodeCursorValue(cursor.value), encodeCursorValue(cursor.key)]);
+    return Buffer.from(json, "utf8").toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decodes a pagination cursor
+ * @param cursor The encoded cursor
+ * @returns The decoded cursor
+ */
+export function decodePageCursor(cursor: string): PageCursor {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(Buffer.from(cursor.replace(/-/g, "+").replace(/_/g, "/"), "base64").toString("utf8"));
+    } catch (ex) {
+        throw new Error("Invalid pagination cursor");
+    }
+    if (!(parsed instanceof Array) || parsed.length !== 5 || (parsed[0] !== "next" && parsed[0] !== "prev") || typeof parsed[1] !== "string") {
+        throw new Error("Invalid pagination cursor");
+    }
+    return {
+        direction: parsed[0],
+        sortBy: parsed[1],
+        sortDir: parsed[2] === "desc" ? "desc" : "asc",
+        value: decodeCursorValue(parsed[3]),
+        key: decodeCursorValue(parsed[4]),
+    };
+}
+
+/**
+ * Builds the filter to fetch the rows after a cursor
+ * (sort field, then primary key as tie-breaker)
+ * @param sortBy The sort field
+ * @param sortDir The sort direction
+ * @param primaryKey The primary key
+ * @param value The value of the sort field at the cursor
+ * @param key The value of the primary key at the cursor
+ * @returns The filter
+ */
+export function makeKeysetFilter(sortBy: string, sortDir: SortDirection, primaryKey: string, value: GenericValue, key: GenericKeyValue): GenericFilter {
+    const operation = sortDir === "desc" ? "lt" : "gt";
+
+    if (sortBy === primaryKey) {
+        return { operation: operation, key: primaryKey, value: key };
+    }
+
+    return {
+        operation: "or",
+        children: [
+            { operation: operation, key: sortBy, value: value },
+            {
+                operation: "and",
+                children: [
+                    { operation: "eq", key: sortBy, value: value },
+                    { operation: operation, key: primaryKey, value: key },
+                ],
+            },
+        ],
+    };
+}
+
+function encodeCursorValue(value: GenericValue): any {
+    if (value instanceof Date) {
+        return { d: value.toISOString() };
+    } else if (typeof value === "bigint") {
+        return { n: value.toString() };
+    } else if (value === undefined) {
+        return null;
+    } else if (typeof value === "object" && value !== null) {
+        throw new Error("Cannot use a value of type object in a pagination cursor");
+    } else {
+        return value;
+    }
+}
+
+function decodeCursorValue(value: any): GenericValue {
+    if (typeof value === "object" && value !== null) {
+        if (typeof value.d === "string") {
+            return new Date(value.d);
+        } else if (typeof value.n === "string") {
+            try {
+                return BigInt(value.n);
+            } catch (ex) {
+                throw new Error("Invalid pagination cursor");
+            }
+        } else {
+            throw new Error("Invalid pagination cursor");
+        }
+    }
+    return value;
+}
@@ -0,0 +1,97 @@
+// Relations
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { GenericFilter, GenericKeyValue } from "./common";
+import { DataAccessObject } from "./dao";
+import { getModelSchema, ModelRelationSchema } from "./schema";
+import { Transaction } from "./transaction";
+
+/**
+ * Loads the related instances of a list of data model instances.
+ * Each relation is loaded with a single query, using the IN operator.
+ * The related instances are set as non-enumerable properties,
+ * so they are not persisted or serialized.
+ * @param beans The data model instances (all of the same class)
+ * @param relations The names of the relations to load
+ * @param transaction Optional. Transaction to use.
+ */
+export async function loadRelations(beans: any[], relations: string[], transaction?: Transaction): Promise<void> {
+    if (beans.length === 0 || relations.length === 0) {
+        return;
+    }
+
+    const schema = getModelSchema(beans[0].constructor);
+
+    for (const relationName of relations) {
+        const relation = schema ? schema.relations.find(r => r.name === relationName) : null;
+
+        if (!relation) {
+            throw new Error("Relation " + relationName + " is not declared for the data model " + beans[0].constructor.name);
+        }
+
+        await loadRelation(beans, relation, schema.primaryKey, transaction);
+    }
+}
+
+async function loadRelation(beans: any[], relation: ModelRelationSchema, primaryKey: string, transaction: Transaction): Promise<void> {
+    const relatedModel = relation.model();
+    const relatedSchema = getModelSchema(relatedModel);
+
+    if (!relatedSchema || !relatedSchema.table) {
+        throw new Error("Cannot load relation " + relation.name + ": The related data model " + relatedModel.name + " must be declared with the @Table decorator.");
+    }
+
+    // The field of the beans used to match the related instances, and the field of the related instances
+    let localField: string;
+    let remoteField: string;
+
+    if (relation.type === "belongsTo") {
+        localField = relation.foreignKey;
+        remoteField = relation.key || relatedSchema.primaryKey;
+    } else {
+        localField = relation.key || primaryKey;
+        remoteField = relation.foreignKey;
+    }
+
+    const values = new Set<GenericKeyValue>();
+
+    for (const bean of beans) {
+        if (bean[localField] !== null && bean[localField] !== undefined) {
+            values.add(bean[localField]);
+        }
+    }
+
+    const related = new Map<GenericKeyValue, any[]>();
+
+    if (values.size > 0) {
+        let filter: GenericFilter = { operation: "in", key: remoteField, values: Array.from(values) };
+
+        if (relatedSchema.softDelete) {
+            // Exclude soft-deleted instances
+            filter = { operation: "and", children: [filter, { operation: "exists", key: relatedSchema.softDelete, exists: false }] };
+        }
+
+        const rows = await DataAccessObject.find(relatedSchema.source, relatedSchema.table, filter, null, null, -1, -1, null, {}, transaction);
+
+        for (const row of rows) {
+            const instance = new relatedModel(row);
+            const value = instance[remoteField];
+            if (!related.has(value)) {
+                related.set(value, []);
+            }
+            related.get(value).push(instance);
+        }
+    }
+
+    for (const bean of beans) {
+        const instances = related.get(bean[localField]) || [];
+        Object.defineProperty(bean, relation.name, {
+            value: relation.type === "hasMany" ? instances : (instances[0] || null),
+            enumerable: false,
+            writable: true,
+            configurable: true,
+        });
+    }
+}
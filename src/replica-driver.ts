@@ -0,0 +1,294 @@
+// Read replica routing driver
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { AsyncLocalStorage } from "async_hooks";
+import { AggregationColumn, GenericFilter, GenericKeyValue, GenericRow, GenericRowUpdate, GenericValue, SortDirection, UpsertResult } from "./common";
+import { Clock, DataSource } from "./data-source";
+import { DataSourceDriver, DataSourceDriverCapabilities, QueryExtraOptions, TransactionDriver } from "./data-source-driver";
+
+/**
+ * Read replica
+ */
+export interface ReplicaOptions {
+    /**
+     * Driver connected to the replica
+     */
+    driver: DataSourceDriver;
+
+    /**
+     * Optional. Weight of the replica (positive number).
+     * Replicas receive reads proportionally to their weight. By default, 1 (round-robin).
+     */
+    weight?: number;
+}
+
+/**
+ * Options for the read replica routing driver
+ */
+export interface ReplicaRoutingOptions {
+    /**
+     * Driver connected to the primary. Receives all the writes and transactions.
+     */
+    primary: DataSourceDriver;
+
+    /**
+     * Read replicas. If empty, the reads are sent to the primary.
+     */
+    replicas: ReplicaOptions[];
+
+    /**
+     * Optional. Time (milliseconds) the reads are sent to the primary after a write ("read your writes").
+     * By default, 0 (disabled). See also ReplicaRoutingDriver.readYourWrites.
+     */
+    stickyWindow?: number;
+
+    /**
+     * Optional. Clock used to measure the sticky window. Replace it to control the time in tests.
+     */
+    clock?: Clock;
+}
+
+/**
+ * Read replica state
+ */
+interface ReplicaState {
+    driver: DataSourceDriver;
+    weight: number;
+    current: number;
+}
+
+/**
+ * Read-your-writes scope
+ */
+interface StickyScope {
+    written: boolean;
+}
+
+/**
+ * Driver routing the reads (findByKey, find, count, findStream, findStreamSync, sum, aggregate) to read replicas,
+ * and the writes and transactions to the primary.
+ * Replicas are chosen with a smooth weighted round-robin.
+ * After a write, the reads are sent to the primary during the sticky window,
+ * or until the end of the read-your-writes scope (see readYourWrites).
+ */
+export class ReplicaRoutingDriver implements DataSourceDriver {
+
+    /**
+     * Creates a data source for this driver
+     * @param name Name of the data source
+     * @param options Driver options
+     * @returns The data source
+     */
+    public static createDataSource(name: string, options: ReplicaRoutingOptions): DataSource {
+        return new DataSource(name, new ReplicaRoutingDriver(options));
+    }
+
+    public upsert?: (table: string, keys: string[], row: GenericRow, updated: GenericRowUpdate) => Promise<UpsertResult>;
+
+    public aggregate?: (table: string, filter: GenericFilter, groupBy: string[], aggregations: AggregationColumn[], queryExtraOptions: QueryExtraOptions) => Promise<GenericRow[]>;
+
+    public beginTransaction?: () => Promise<TransactionDriver>;
+
+    private primary: DataSourceDriver;
+    private replicas: ReplicaState[];
+    private stickyWindow: number;
+    private clock: Clock;
+    private lastWrite: number;
+    private scopes: AsyncLocalStorage<StickyScope>;
+
+    /**
+     * Constructor
+     * @param options Driver options
+     */
+    constructor(options: ReplicaRoutingOptions) {
+        this.primary = options.primary;
+        this.replicas = (options.replicas || []).map(replica => {
+            const weight = replica.weight === undefined ? 1 : replica.weight;
+            if (typeof weight !== "number" || !(weight > 0) || !isFinite(weight)) {
+                throw new Error("Invalid replica weight: " + weight + ". Weights must be positive numbers.");
+            }
+            return { driver: replica.driver, weight: weight, current: 0 };
+        });
+        this.stickyWindow = options.stickyWindow || 0;
+        this.clock = options.clock || (() => new Date());
+        this.lastWrite = null;
+        this.scopes = new AsyncLocalStorage();
+
+        // Optional operations are only available if the drivers implement them
+
+        if (this.primary.upsert) {
+            this.upsert = async (table, keys, row, updated) => {
+                return this.write(() => this.primary.upsert(table, keys, row, updated));
+            };
+        }
+
+        if (this.primary.aggregate && this.replicas.every(r => !!r.driver.aggregate)) {
+            this.aggregate = async (table, filter, groupBy, aggregations, queryExtraOptions) => {
+                return this.getReadDriver().aggregate(table, filter, groupBy, aggregations, queryExtraOptions);
+            };
+        }
+
+        if (this.primary.beginTransaction) {
+            this.beginTransaction = async () => {
+                const tx = await this.primary.beginTransaction();
+                const commit = tx.commit.bind(tx);
+                tx.commit = async () => {
+                    return this.write(commit);
+                };
+                return tx;
+            };
+        }
+    }
+
+    /**
+     * Runs a function in a read-your-writes scope:
+     * once a write is made inside the scope, the following reads of the scope are sent to the primary.
+     * The scope follows the asynchronous calls made by the function (AsyncLocalStorage).
+     * @param fn The function
+     * @returns The value returned by the function
+     */
+    public async readYourWrites<R>(fn: () => Promise<R>): Promise<R> {
+        return this.scopes.run({ written: false }, fn);
+    }
+
+    /**
+     * Gets the optional features supported by the driver.
+     * Reads can be sent to any driver, so only the features supported by all of them are reported.
+     * @returns The capabilities
+     */
+    public getCapabilities(): DataSourceDriverCapabilities {
+        const primary = getDriverCapabilities(this.primary);
+        const replicas = this.replicas.map(r => getDriverCapabilities(r.driver));
+
+        return {
+            updatePaths: !!primary.updatePaths,
+            filterOperations: (primary.filterOperations || []).filter(op => replicas.every(c => (c.filterOperations || []).includes(op))),
+            sortKeys: !!primary.sortKeys && replicas.every(c => !!c.sortKeys),
+        };
+    }
+
+    public async findByKey(table: string, keyName: string, keyValue: GenericValue): Promise<GenericRow> {
+        return this.getReadDriver().findByKey(table, keyName, keyValue);
+    }
+
+    public async find(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions): Promise<GenericRow[]> {
+        return this.getReadDriver().find(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions);
+    }
+
+    public async count(table: string, filter: GenericFilter, queryExtraOptions: QueryExtraOptions): Promise<number> {
+        return this.getReadDriver().count(table, filter, queryExtraOptions);
+    }
+
+    public async findStream(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, each: (row: GenericRow) => Promise<void>): Promise<void> {
+        return this.getReadDriver().findStream(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions, each);
+    }
+
+    public async findStreamSync(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, each: (row: any) => void): Promise<void> {
+        return this.getReadDriver().findStreamSync(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions, each);
+    }
+
+    public async insert(table: string, row: GenericRow, key: string, callback?: (value: GenericKeyValue) => void): Promise<void> {
+        return this.write(() => this.primary.insert(table, row, key, callback));
+    }
+
+    public async batchInsert(table: string, rows: GenericRow[]): Promise<void> {
+        return this.write(() => this.primary.batchInsert(table, rows));
+    }
+
+    public async update(table: string, keyName: string, keyValue: GenericKeyValue, updated: GenericRow): Promise<void | number> {
+        return this.write(() => this.primary.update(table, keyName, keyValue, updated));
+    }
+
+    public async updateMany(table: string, filter: GenericFilter, updated: GenericRowUpdate): Promise<number> {
+        return this.write(() => this.primary.updateMany(table, filter, updated));
+    }
+
+    public async delete(table: string, keyName: string, keyValue: GenericKeyValue): Promise<boolean> {
+        return this.write(() => this.primary.delete(table, keyName, keyValue));
+    }
+
+    public async deleteMany(table: string, filter: GenericFilter): Promise<number> {
+        return this.write(() => this.primary.deleteMany(table, filter));
+    }
+
+    public async sum(table: string, filter: GenericFilter, id: string, field: string): Promise<number> {
+        return this.getReadDriver().sum(table, filter, id, field);
+    }
+
+    public async increment(table: string, keyName: string, keyValue: GenericKeyValue, prop: string, inc: number): Promise<void | number> {
+        return this.write(() => this.primary.increment(table, keyName, keyValue, prop, inc));
+    }
+
+    /**
+     * Runs a write in the primary.
+     * The write is registered when it starts and again when it finishes,
+     * so the sticky window starts after the write completes.
+     * @param fn The function running the write
+     * @returns The result of the write
+     */
+    private async write<R>(fn: () => Promise<R>): Promise<R> {
+        this.markWrite();
+        try {
+            return await fn();
+        } finally {
+            this.markWrite();
+        }
+    }
+
+    /**
+     * Registers a write, for the read-your-writes stickiness
+     */
+    private markWrite() {
+        this.lastWrite = this.clock().getTime();
+
+        const scope = this.scopes.getStore();
+
+        if (scope) {
+            scope.written = true;
+        }
+    }
+
+    /**
+     * Chooses the driver for a read operation
+     * @returns The driver
+     */
+    private getReadDriver(): DataSourceDriver {
+        if (this.replicas.length === 0) {
+            return this.primary;
+        }
+
+        const scope = this.scopes.getStore();
+
+        if (scope && scope.written) {
+            return this.primary;
+        }
+
+        if (this.stickyWindow > 0 && this.lastWrite !== null && this.clock().getTime() - this.lastWrite < this.stickyWindow) {
+            return this.primary;
+        }
+
+        // Smooth weighted round-robin
+
+        let total = 0;
+        let best: ReplicaState = null;
+
+        for (const replica of this.replicas) {
+            replica.current += replica.weight;
+            total += replica.weight;
+
+            if (!best || replica.current > best.current) {
+                best = replica;
+            }
+        }
+
+        best.current -= total;
+
+        return best.driver;
+    }
+}
+
+function getDriverCapabilities(driver: DataSourceDriver): DataSourceDriverCapabilities {
+    return driver.getCapabilities ? (driver.getCapabilities() || {}) : {};
+}
@@ -0,0 +1,517 @@
+// REST query parser
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { enforceType, GenericValue, ModelFieldPath } from "./common";
+import { DataFilter, OrderBy, SelectOptions } from "./finder";
+
+/**
+ * Type of a field in a REST query (used to coerce the values with enforceType)
+ */
+export type RestQueryFieldType = "string" | "number" | "int" | "boolean" | "bigint" | "date";
+
+/**
+ * Filter operator of a REST query (eg: ?age[gte]=18)
+ * - eq, ne, gt, gte, lt, lte = Comparisons
+ * - in, nin = In / not in a list (comma separated or repeated)
+ * - between = Within a range (2 values, comma separated)
+ * - like, ilike = Wildcard pattern (% and _), ilike ignores case
+ * - ieq = Equals, ignoring case
+ * - null = Is null (true) or is not null (false)
+ */
+export type RestQueryOperator = "eq" | "ne" | "gt" | "gte" | "lt" | "lte" | "in" | "nin" | "between" | "like" | "ilike" | "ieq" | "null";
+
+/**
+ * Options of a field in a REST query
+ */
+export interface RestQueryFieldOptions {
+    /**
+     * Type of the field
+     */
+    type: RestQueryFieldType;
+
+    /**
+     * True if the field can be used to filter. Default: true
+     */
+    filter?: boolean;
+
+    /**
+     * True if the field can be used to sort. Default: true
+     */
+    sort?: boolean;
+
+    /**
+     * Allowed filter operators. Default: eq, ne, gt, gte, lt, lte, in, null
+     * The other ones require driver support.
+     */
+    operators?: RestQueryOperator[];
+}
+
+/**
+ * Options to parse a REST query
+ */
+export interface RestQueryOptions<T = any> {
+    /**
+     * Fields that can be used in the query (whitelist), with their type or options
+     */
+    fields: { [K in ModelFieldPath<T>]?: RestQueryFieldType | RestQueryFieldOptions };
+
+    /**
+     * Max page size. Default: 100
+     */
+    maxPageSize?: number;
+
+    /**
+     * Page size if not set in the query. Default: 20 (or maxPageSize if lower)
+     */
+    defaultPageSize?: number;
+
+    /**
+     * Order if not set in the query. Default: OrderBy.nothing()
+     */
+    defaultOrder?: OrderBy<T>;
+
+    /**
+     * True to ignore the parameters that are not fields. Default: false (they are rejected)
+     */
+    ignoreUnknown?: boolean;
+}
+
+/**
+ * Result of parsing a REST query
+ */
+export interface RestQuery<T = any> {
+    /**
+     * The filter
+     */
+    filter: DataFilter<T>;
+
+    /**
+     * The order
+     */
+    orderBy: OrderBy<T>;
+
+    /**
+     * Options with the page (skip and limit) and the projection
+     */
+    options: SelectOptions<T>;
+
+    /**
+     * Page number (first page is 1)
+     */
+    page: number;
+
+    /**
+     * Page size
+     */
+    pageSize: number;
+}
+
+/**
+ * Code of a REST query failure
+ */
+export type RestQueryFailureCode = "unknown_field" | "not_filterable" | "not_sortable" | "invalid_operator" | "invalid_value" | "invalid_page" | "invalid_page_size" | "page_size_exceeded";
+
+/**
+ * Failure for a parameter of a REST query
+ */
+export interface RestQueryFailure {
+    /**
+     * Name of the parameter (eg: "age[gte]")
+     */
+    param: string;
+
+    /**
+     * Failure code
+     */
+    code: RestQueryFailureCode;
+
+    /**
+     * Error message
+     */
+    message: string;
+}
+
+/**
+ * Error thrown when a REST query is not valid.
+ * Lists every invalid parameter.
+ */
+export class RestQueryError extends Error {
+    /**
+     * List of failures
+     */
+    public failures: RestQueryFailure[];
+
+    /**
+     * Constructor
+     * @param failures List of failures
+     */
+    constructor(failures: RestQueryFailure[]) {
+        super("Invalid query: " + failures.map(f => f.param + ": " + f.message).join("; "));
+        this.name = "RestQueryError";
+        this.failures = failures;
+    }
+}
+
+const DEFAULT_OPERATORS: RestQueryOperator[] = ["eq", "ne", "gt", "gte", "lt", "lte", "in", "null"];
+
+const ALL_OPERATORS: RestQueryOperator[] = ["eq", "ne", "gt", "gte", "lt", "lte", "in", "nin", "between", "like", "ilike", "ieq", "null"];
+
+const DEFAULT_MAX_PAGE_SIZE = 100;
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Parses a REST query (the query string parameters of an URL) into a filter, an order and select options.
+ * Reserved parameters:
+ * - sort = Fields to sort by, comma separated. Prefix with "-" for descendant order. Eg: ?sort=-age,name
+ * - page = Page number (first page is 1)
+ * - pageSize = Page size
+ * - fields = Fields to fetch, comma separated
+ * Any other parameter is a filter: ?name=John or ?age[gte]=18
+ * Both nested objects ({ age: { gte: "18" } }) and flat keys ({ "age[gte]": "18" }) are accepted.
+ * @param query The query parameters (eg: req.query, or Object.fromEntries(url.searchParams))
+ * @param options The options, with the whitelist of fields
+ * @returns The filter, order and select options
+ */
+export function parseRestQuery<T = any>(query: { [param: string]: any }, options: RestQueryOptions<T>): RestQuery<T> {
+    const parser = new RestQueryParser<T>(options);
+
+    for (const param of Object.keys(query || {})) {
+        parser.parseParam(param, query[param]);
+    }
+
+    return parser.getResult();
+}
+
+/**
+ * REST query parser (collects the failures)
+ */
+class RestQueryParser<T> {
+    private options: RestQueryOptions<T>;
+    private failures: RestQueryFailure[];
+    private filters: DataFilter<T>[];
+    private orderBy: OrderBy<T>;
+    private projection: ModelFieldPath<T>[];
+    private page: number;
+    private pageSize: number;
+    private maxPageSize: number;
+
+    constructor(options: RestQueryOptions<T>) {
+        this.options = options;
+        this.failures = [];
+        this.filters = [];
+        this.orderBy = null;
+        this.projection = null;
+        this.maxPageSize = options.maxPageSize || DEFAULT_MAX_PAGE_SIZE;
+        this.page = 1;
+        this.pageSize = Math.min(options.defaultPageSize || DEFAULT_PAGE_SIZE, this.maxPageSize);
+    }
+
+    public parseParam(param: string, value: any) {
+        switch (param) {
+        case "sort":
+            this.parseSort(value);
+            return;
+        case "page":
+            this.page = this.parsePositiveInt(param, value, "invalid_page", this.page);
+            return;
+        case "pageSize":
+        {
+            const pageSize = this.parsePositiveInt(param, value, "invalid_page_size", this.pageSize);
+            if (pageSize > this.maxPageSize) {
+                this.fail(param, "page_size_exceeded", "The max page size is " + this.maxPageSize + ".");
+            } else {
+                this.pageSize = pageSize;
+            }
+            return;
+        }
+        case "fields":
+            this.parseFields(value);
+            return;
+        }
+
+        const flat = (/^([^[\]]+)\[([^[\]]+)\]$/).exec(param);
+
+        if (flat) {
+            this.parseFilter(flat[1], flat[2], param, value);
+        } else if (typeof value === "object" && value !== null && !(value instanceof Array)) {
+            for (const operator of Object.keys(value)) {
+                this.parseFilter(param, operator, param + "[" + operator + "]", value[operator]);
+            }
+        } else {
+            this.parseFilter(param, value instanceof Array ? "in" : "eq", param, value);
+        }
+    }
+
+    public getResult(): RestQuery<T> {
+        if (this.failures.length > 0) {
+            throw new RestQueryError(this.failures);
+        }
+
+        const options = SelectOptions.configure<T>()
+            .setFirstRow((this.page - 1) * this.pageSize)
+            .setMaxRows(this.pageSize);
+
+        if (this.projection) {
+            options.fetchOnly(this.projection);
+        }
+
+        let filter: DataFilter<T>;
+
+        if (this.filters.length === 0) {
+            filter = DataFilter.any();
+        } else if (this.filters.length === 1) {
+            filter = this.filters[0];
+        } else {
+            filter = DataFilter.and(...this.filters);
+        }
+
+        return {
+            filter: filter,
+            orderBy: this.orderBy || this.options.defaultOrder || OrderBy.nothing(),
+            options: options,
+            page: this.page,
+            pageSize: this.pageSize,
+        };
+    }
+
+    private getField(param: string, field: string): RestQueryFieldOptions {
+        const options: RestQueryFieldType | RestQueryFieldOptions = Object.prototype.hasOwnProperty.call(this.options.fields, field) ? (<any>this.options.fields)[field] : null;
+
+        if (!options) {
+            if (!this.options.ignoreUnknown) {
+                this.fail(param, "unknown_field", "Unknown field: " + field);
+            }
+            return null;
+        }
+
+        return typeof options === "string" ? { type: options } : options;
+    }
+
+    private parseFilter(field: string, operator: string, param: string, value: any) {
+        const fieldOptions = this.getField(param, field);
+
+        if (!fieldOptions) {
+            return;
+        }
+
+        if (fieldOptions.filter === false) {
+            this.fail(param, "not_filterable", "Cannot filter by the field: " + field);
+            return;
+        }
+
+        if (!(<string[]>ALL_OPERATORS).includes(operator) || !(fieldOptions.operators || DEFAULT_OPERATORS).includes(<RestQueryOperator>operator)) {
+            this.fail(param, "invalid_operator", "Invalid operator for the field " + field + ": " + operator);
+            return;
+        }
+
+        const key = <ModelFieldPath<T>>field;
+
+        switch (<RestQueryOperator>operator) {
+        case "in":
+        case "nin":
+        {
+            const values = splitList(value).map(v => this.coerce(param, fieldOptions.type, v));
+            if (values.some(v => v === undefined)) {
+                return;
+            }
+            this.filters.push(operator === "in" ? DataFilter.into(key, values) : DataFilter.notInto(key, values));
+            return;
+        }
+        case "between":
+        {
+            const values = splitList(value);
+            if (values.length !== 2) {
+                this.fail(param, "invalid_value", "Expected 2 values (min,max).");
+                return;
+            }
+            const min = this.coerce(param, fieldOptions.type, values[0]);
+            const max = this.coerce(param, fieldOptions.type, values[1]);
+            if (min !== undefined && max !== undefined) {
+                this.filters.push(DataFilter.between(key, min, max));
+            }
+            return;
+        }
+        case "null":
+        {
+            const isNull = this.coerce(param, "boolean", value);
+            if (isNull !== undefined) {
+                this.filters.push(isNull ? DataFilter.isNull(key) : DataFilter.isNotNull(key));
+            }
+            return;
+        }
+        case "like":
+        case "ilike":
+        case "ieq":
+            if (typeof value !== "string") {
+                this.fail(param, "invalid_value", "Expected a single value.");
+                return;
+            }
+            this.filters.push(operator === "ieq" ? DataFilter.equalsIgnoreCase(key, value) : DataFilter.like(key, value, operator === "ilike"));
+            return;
+        }
+
+        const coerced = this.coerce(param, fieldOptions.type, value);
+
+        if (coerced === undefined) {
+            return;
+        }
+
+        switch (<RestQueryOperator>operator) {
+        case "ne":
+            this.filters.push(DataFilter.notEquals(key, coerced));
+            break;
+        case "gt":
+            this.filters.push(DataFilter.greaterThan(key, coerced));
+            break;
+        case "gte":
+            this.filters.push(DataFilter.greaterOrEquals(key, coerced));
+            break;
+        case "lt":
+            this.filters.push(DataFilter.lessThan(key, coerced));
+            break;
+        case "lte":
+            this.filters.push(DataFilter.lessOrEquals(key, coerced));
+            break;
+        default:
+            this.filters.push(DataFilter.equals(key, coerced));
+        }
+    }
+
+    private parseSort(value: any) {
+        const orderBy = new OrderBy<T>("", null);
+
+        for (const item of splitList(value)) {
+            if (typeof item !== "string") {
+                this.fail("sort", "invalid_value", "Expected a list of fields.");
+                continue;
+            }
+
+            const desc = item.charAt(0) === "-";
+            const field = (desc || item.charAt(0) === "+") ? item.substring(1) : item;
+            const fieldOptions = this.getField("sort", field);
+
+            if (!fieldOptions) {
+                continue;
+            }
+
+            if (fieldOptions.sort === false) {
+                this.fail("sort", "not_sortable", "Cannot sort by the field: " + field);
+                continue;
+            }
+
+            if (desc) {
+                orderBy.thenDesc(<ModelFieldPath<T>>field);
+            } else {
+                orderBy.thenAsc(<ModelFieldPath<T>>field);
+            }
+        }
+
+        if (orderBy.keys.length > 0) {
+            this.orderBy = orderBy;
+        }
+    }
+
+    private parseFields(value: any) {
+        const fields: ModelFieldPath<T>[] = [];
+
+        for (const field of splitList(value)) {
+            if (typeof field !== "string") {
+                this.fail("fields", "invalid_value", "Expected a list of fields.");
+                continue;
+            }
+
+            if (this.getField("fields", field)) {
+                fields.push(<ModelFieldPath<T>>field);
+            }
+        }
+
+        if (fields.length > 0) {
+            this.projection = fields;
+        }
+    }
+
+    private parsePositiveInt(param: string, value: any, code: RestQueryFailureCode, defaultValue: number): number {
+        const n = typeof value === "string" && (/^[0-9]+$/).test(value) ? enforceType(value, "int") : NaN;
+
+        if (!(n >= 1) || !Number.isSafeInteger(n)) {
+            this.fail(param, code, "Expected a positive integer.");
+            return defaultValue;
+        }
+
+        return n;
+    }
+
+    /**
+     * Coerces a value to the type of the field
+     * @returns The value, or undefined if not valid (the failure is added)
+     */
+    private coerce(param: string, type: RestQueryFieldType, value: any): GenericValue {
+        if (typeof value === "number" || typeof value === "boolean") {
+            value = "" + value;
+        }
+
+        if (typeof value !== "string") {
+            this.fail(param, "invalid_value", "Expected a single value.");
+            return undefined;
+        }
+
+        if (type === "string") {
+            return value;
+        }
+
+        if (type === "boolean") {
+            if (value === "true" || value === "1") {
+                return true;
+            } else if (value === "false" || value === "0") {
+                return false;
+            }
+            this.fail(param, "invalid_value", "Expected a boolean (true or false).");
+            return undefined;
+        }
+
+        if (type === "int" && !Number.isInteger(Number(value))) {
+            // enforceType would truncate the decimals
+            this.fail(param, "invalid_value", "Expected an integer.");
+            return undefined;
+        }
+
+        let coerced: GenericValue = null;
+
+        if (value.trim().length > 0) {
+            try {
+                coerced = enforceType(value, <any>type);
+            } catch (ex) {
+                coerced = null;
+            }
+        }
+
+        if (coerced === null || (typeof coerced === "number" && !isFinite(coerced)) || (coerced instanceof Date && isNaN(coerced.getTime()))) {
+            this.fail(param, "invalid_value", "Expected a valid value of type " + type + ".");
+            return undefined;
+        }
+
+        return coerced;
+    }
+
+    private fail(param: string, code: RestQueryFailureCode, message: string) {
+        this.failures.push({ param: param, code: code, message: message });
+    }
+}
+
+/**
+ * Splits a list parameter (comma separated, or repeated)
+ * @param value The parameter value
+ * @returns The list of values
+ */
+function splitList(value: any): any[] {
+    if (value instanceof Array) {
+        return value.reduce((list: any[], v) => list.concat(typeof v === "string" ? v.split(",") : [v]), []);
+    } else if (typeof value === "string") {
+        return value.split(",");
+    } else {
+        return [value];
+    }
+}
@@ -0,0 +1,466 @@
+// Model schema (decorators)
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { enforceType, GenericRow } from "./common";
+import { DataSource } from "./data-source";
+import { FieldValidationRules } from "./validation";
+
+/**
+ * Type of a field, as accepted by enforceType
+ */
+export type FieldType = "string" | "number" | "boolean" | "int" | "bigint" | "date" | "object" | "array";
+
+/**
+ * Schema of a field of a data model
+ */
+export interface ModelFieldSchema {
+    /**
+     * Name of the field
+     */
+    name: string;
+
+    /**
+     * Type of the field
+     */
+    type: FieldType;
+}
+
+/**
+ * Type of relation between data models
+ * - belongsTo = The model has a field referencing the key of the related model
+ * - hasMany = Many instances of the related model have a field referencing the key of the model
+ * - hasOne = One instance of the related model has a field referencing the key of the model
+ */
+export type RelationType = "belongsTo" | "hasMany" | "hasOne";
+
+/**
+ * Schema of a relation of a data model
+ */
+export interface ModelRelationSchema {
+    /**
+     * Name of the property to store the related instances
+     */
+    name: string;
+
+    /**
+     * Type of relation
+     */
+    type: RelationType;
+
+    /**
+     * Function returning the related data model class (allows circular references)
+     */
+    model: () => ModelClass;
+
+    /**
+     * Name of the field storing the reference.
+     * For belongsTo, a field of the model. For hasMany and hasOne, a field of the related model.
+     */
+    foreignKey: string;
+
+    /**
+     * Name of the referenced field (by default the primary key).
+     * For belongsTo, a field of the related model. For hasMany and hasOne, a field of the model.
+     */
+    key: string;
+}
+
+/**
+ * Validation rules of a field of a data model
+ */
+export interface ModelFieldValidation {
+    /**
+     * Name of the field
+     */
+    name: string;
+
+    /**
+     * Validation rules
+     */
+    rules: FieldValidationRules;
+}
+
+/**
+ * Schema of a data model, declared with decorators
+ */
+export interface ModelSchema {
+    /**
+     * Name of the data source
+     */
+    source: string;
+
+    /**
+     * Name of the table or collection
+     */
+    table: string;
+
+    /**
+     * Name of the primary key (empty if no primary key)
+     */
+    primaryKey: string;
+
+    /**
+     * Name of the version field, for optimistic locking (empty if not used)
+     */
+    version: string;
+
+    /**
+     * Name of the deletion timestamp field, for soft delete (empty if not used)
+     */
+    softDelete: string;
+
+    /**
+     * Name of the creation timestamp field (empty if not used)
+     */
+    createdAt: string;
+
+    /**
+     * Name of the update timestamp field (empty if not used)
+     */
+    updatedAt: string;
+
+    /**
+     * True to save the changes of nested objects as dotted paths
+     */
+    deepDiff: boolean;
+
+    /**
+     * Fields of the data model
+     */
+    fields: ModelFieldSchema[];
+
+    /**
+     * Relations with other data models
+     */
+    relations: ModelRelationSchema[];
+
+    /**
+     * Validation rules of the fields
+     */
+    validations: ModelFieldValidation[];
+}
+
+/**
+ * Class of a data model
+ */
+export type ModelClass<T = any> = new (...args: any[]) => T;
+
+/**
+ * Metadata declared for a class (without inheritance)
+ */
+interface ModelMetadata {
+    source: string;
+    table: string;
+    primaryKey: string;
+    version: string;
+    softDelete: string;
+    createdAt: string;
+    updatedAt: string;
+    deepDiff: boolean;
+    fields: Map<string, FieldType>;
+    relations: Map<string, ModelRelationSchema>;
+    validations: Map<string, FieldValidationRules>;
+    onReady: ((schema: ModelSchema) => void)[];
+}
+
+const metadataMap: Map<Function, ModelMetadata> = new Map();
+
+function getOwnMetadata(target: Function): ModelMetadata {
+    if (!metadataMap.has(target)) {
+        metadataMap.set(target, {
+            source: null,
+            table: null,
+            primaryKey: null,
+            version: null,
+            softDelete: null,
+            createdAt: null,
+            updatedAt: null,
+            deepDiff: null,
+            fields: new Map(),
+            relations: new Map(),
+            validations: new Map(),
+            onReady: [],
+        });
+    }
+    return metadataMap.get(target);
+}
+
+/**
+ * Class decorator. Sets the table and the data source of a data model.
+ * @param table Name of the table or collection
+ * @param source Name of the data source. By default DataSource.DEFAULT
+ */
+export function Table(table: string, source?: string): ClassDecorator {
+    return function (target: Function) {
+        const metadata = getOwnMetadata(target);
+        metadata.table = table;
+        metadata.source = source || DataSource.DEFAULT;
+
+        const schema = getModelSchema(target);
+        const callbacks = metadata.onReady;
+        metadata.onReady = [];
+        for (const callback of callbacks) {
+            callback(schema);
+        }
+    };
+}
+
+/**
+ * Class decorator. Enables the deep diff for a data model:
+ * DataModel.save computes the changes of nested objects as dotted paths (Example: "address.city"),
+ * instead of replacing the full value of the changed fields.
+ * Arrays are always replaced as a whole (no paths by index).
+ * Drivers not supporting nested paths replace the full value.
+ * @param enabled Optional. False to disable the deep diff (inherited from a parent class). By default true.
+ */
+export function DeepDiff(enabled?: boolean): ClassDecorator {
+    return function (target: Function) {
+        getOwnMetadata(target).deepDiff = enabled !== false;
+    };
+}
+
+/**
+ * Property decorator. Declares a field of a data model.
+ * The value of the field is parsed with enforceType when calling DataModel.init
+ * @param type Type of the field
+ */
+export function Field(type: FieldType): PropertyDecorator {
+    return function (target: Object, propertyKey: string | symbol) {
+        getOwnMetadata(target.constructor).fields.set(propertyKey.toString(), type);
+    };
+}
+
+/**
+ * Property decorator. Sets the field as the primary key of a data model.
+ */
+export function PrimaryKey(): PropertyDecorator {
+    return function (target: Object, propertyKey: string | symbol) {
+        getOwnMetadata(target.constructor).primaryKey = propertyKey.toString();
+    };
+}
+
+/**
+ * Property decorator. Sets the field as the version of a data model, enabling optimistic locking.
+ * DataModel.save only updates the row if the version did not change since the model was loaded,
+ * and increments it. Otherwise, it throws a StaleObjectError.
+ */
+export function Version(): PropertyDecorator {
+    return function (target: Object, propertyKey: string | symbol) {
+        getOwnMetadata(target.constructor).version = propertyKey.toString();
+    };
+}
+
+/**
+ * Property decorator. Sets the field as the deletion timestamp of a data model, enabling soft delete.
+ * Deleting sets the field to the current date instead of removing the row,
+ * and the finders created with DataFinder.forModel exclude the deleted rows.
+ */
+export function SoftDelete(): PropertyDecorator {
+    return function (target: Object, propertyKey: string | symbol) {
+        getOwnMetadata(target.constructor).softDelete = propertyKey.toString();
+    };
+}
+
+/**
+ * Property decorator. Sets the field as the creation timestamp of a data model.
+ * DataModel.insert sets it to the current date, if not set.
+ */
+export function CreatedAt(): PropertyDecorator {
+    return function (target: Object, propertyKey: string | symbol) {
+        getOwnMetadata(target.constructor).createdAt = propertyKey.toString();
+    };
+}
+
+/**
+ * Property decorator. Sets the field as the update timestamp of a data model.
+ * DataModel.insert sets it to the current date, if not set.
+ * DataModel.save (if there are changes) and the updates of the finders created with DataFinder.forModel set it to the current date.
+ */
+export function UpdatedAt(): PropertyDecorator {
+    return function (target: Object, propertyKey: string | symbol) {
+        getOwnMetadata(target.constructor).updatedAt = propertyKey.toString();
+    };
+}
+
+/**
+ * Property decorator. Declares a relation where the model has a field referencing the key of the related model.
+ * The related instance is loaded with the include option of SelectOptions.
+ * @param model Function returning the related data model class
+ * @param foreignKey Name of the field of the model storing the reference
+ * @param key Name of the referenced field of the related model (by default its primary key)
+ */
+export function BelongsTo(model: () => ModelClass, foreignKey: string, key?: string): PropertyDecorator {
+    return relationDecorator("belongsTo", model, foreignKey, key);
+}
+
+/**
+ * Property decorator. Declares a relation where many instances of the related model reference the key of the model.
+ * The related instances are loaded with the include option of SelectOptions.
+ * @param model Function returning the related data model class
+ * @param foreignKey Name of the field of the related model storing the reference
+ * @param key Name of the referenced field of the model (by default its primary key)
+ */
+export function HasMany(model: () => ModelClass, foreignKey: string, key?: string): PropertyDecorator {
+    return relationDecorator("hasMany", model, foreignKey, key);
+}
+
+/**
+ * Property decorator. Declares a relation where one instance of the related model references the key of the model.
+ * The related instance is loaded with the include option of SelectOptions.
+ * @param model Function returning the related data model class
+ * @param foreignKey Name of the field of the related model storing the reference
+ * @param key Name of the referenced field of the model (by default its primary key)
+ */
+export function HasOne(model: () => ModelClass, foreignKey: string, key?: string): PropertyDecorator {
+    return relationDecorator("hasOne", model, foreignKey, key);
+}
+
+function relationDecorator(type: RelationType, model: () => ModelClass, foreignKey: string, key?: string): PropertyDecorator {
+    return function (target: Object, propertyKey: string | symbol) {
+        const name = propertyKey.toString();
+        getOwnMetadata(target.constructor).relations.set(name, {
+            name: name,
+            type: type,
+            model: model,
+            foreignKey: foreignKey,
+            key: key || null,
+        });
+    };
+}
+
+/**
+ * Adds validation rules to a field of a data model.
+ * Used by the validation decorators.
+ * @param target The data model class
+ * @param field Name of the field
+ * @param rules The rules to add. Custom validators are appended, other rules are replaced.
+ */
+export function addFieldValidationRules(target: Function, field: string, rules: FieldValidationRules) {
+    const validations = getOwnMetadata(target).validations;
+    validations.set(field, mergeValidationRules(validations.get(field), rules));
+}
+
+function mergeValidationRules(current: FieldValidationRules, rules: FieldValidationRules): FieldValidationRules {
+    const merged: FieldValidationRules = Object.assign({}, current || {}, rules);
+    merged.custom = ((current && current.custom) || []).concat(rules.custom || []);
+    return merged;
+}
+
+/**
+ * Gets the schema of a data model, declared with decorators.
+ * Includes the fields declared in parent classes.
+ * @param model The data model class
+ * @returns The schema, or null if the model has no decorators
+ */
+export function getModelSchema(model: Function): ModelSchema {
+    const chain: ModelMetadata[] = [];
+
+    let current = model;
+    while (current && current !== Function.prototype) {
+        if (metadataMap.has(current)) {
+            chain.unshift(metadataMap.get(current));
+        }
+        current = Object.getPrototypeOf(current);
+    }
+
+    if (chain.length === 0) {
+        return null;
+    }
+
+    const schema: ModelSchema = {
+        source: null,
+        table: null,
+        primaryKey: "",
+        version: "",
+        softDelete: "",
+        createdAt: "",
+        updatedAt: "",
+        deepDiff: false,
+        fields: [],
+        relations: [],
+        validations: [],
+    };
+
+    const fields = new Map<string, FieldType>();
+    const relations = new Map<string, ModelRelationSchema>();
+    const validations = new Map<string, FieldValidationRules>();
+
+    for (const metadata of chain) {
+        if (metadata.table) {
+            schema.source = metadata.source;
+            schema.table = metadata.table;
+        }
+        if (metadata.primaryKey) {
+            schema.primaryKey = metadata.primaryKey;
+        }
+        if (metadata.version) {
+            schema.version = metadata.version;
+        }
+        if (metadata.softDelete) {
+            schema.softDelete = metadata.softDelete;
+        }
+        if (metadata.createdAt) {
+            schema.createdAt = metadata.createdAt;
+        }
+        if (metadata.updatedAt) {
+            schema.updatedAt = metadata.updatedAt;
+        }
+        if (metadata.deepDiff !== null) {
+            schema.deepDiff = metadata.deepDiff;
+        }
+        metadata.fields.forEach((type, name) => {
+            fields.set(name, type);
+        });
+        metadata.relations.forEach((relation, name) => {
+            relations.set(name, relation);
+        });
+        metadata.validations.forEach((rules, name) => {
+            validations.set(name, mergeValidationRules(validations.get(name), rules));
+        });
+    }
+
+    fields.forEach((type, name) => {
+        schema.fields.push({ name: name, type: type });
+    });
+
+    relations.forEach(relation => {
+        schema.relations.push(relation);
+    });
+
+    validations.forEach((rules, name) => {
+        schema.validations.push({ name: name, rules: rules });
+    });
+
+    return schema;
+}
+
+/**
+ * Runs a callback when the schema of a data model is ready (the @Table decorator was applied).
+ * Static initializers run before class decorators, so this is needed to use the schema from them.
+ * @param model The data model class
+ * @param callback The callback
+ */
+export function onModelSchemaReady(model: Function, callback: (schema: ModelSchema) => void) {
+    const schema = getModelSchema(model);
+    if (schema && schema.table) {
+        callback(schema);
+    } else {
+        getOwnMetadata(model).onReady.push(callback);
+    }
+}
+
+/**
+ * Parses a row using the schema of a data model
+ * @param schema The schema
+ * @param data The row
+ * @returns The parsed values for each field of the schema
+ */
+export function parseModelRow(schema: ModelSchema, data: GenericRow): GenericRow {
+    const result = Object.create(null);
+    for (const field of schema.fields) {
+        result[field.name] = enforceType(data[field.name], <any>field.type);
+    }
+    return result;
+}
@@ -0,0 +1,576 @@
+// Sharded driver
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { GenericFilter, GenericKeyValue, GenericRow, GenericRowUpdate, GenericValue, SortDirection, SortKey, splitFieldPath, UpsertResult } from "./common";
+import { DataSource } from "./data-source";
+import { DataSourceDriver, DataSourceDriverCapabilities, QueryExtraOptions } from "./data-source-driver";
+import { makeStreamIterator } from "./stream";
+import { compareRows } from "./util";
+
+/**
+ * Shard function. Chooses the shard for a value of the shard field.
+ * @param value The value of the shard field
+ * @param shardCount The number of shards
+ * @returns The index of the shard (from 0 to shardCount - 1)
+ */
+export type ShardFunction = (value: GenericKeyValue, shardCount: number) => number;
+
+/**
+ * Options for the sharded driver
+ */
+export interface ShardedDriverOptions {
+    /**
+     * Drivers connected to each shard
+     */
+    shards: DataSourceDriver[];
+
+    /**
+     * Name of the shard field. Rows are stored in the shard chosen by the value of this field.
+     */
+    field: string;
+
+    /**
+     * Optional. Shard field for specific tables, mapped by table name. Overrides the default field.
+     */
+    tables?: { [table: string]: string };
+
+    /**
+     * Optional. Shard function. By default, hashShardValue.
+     */
+    shardFunction?: ShardFunction;
+}
+
+/**
+ * Default shard function. Hashes the value (FNV-1a) and chooses the shard with the remainder.
+ * @param value The value of the shard field
+ * @param shardCount The number of shards
+ * @returns The index of the shard
+ */
+export function hashShardValue(value: GenericKeyValue, shardCount: number): number {
+    const text = value instanceof Date ? ("" + value.getTime()) : ("" + value);
+    let hash = 0x811c9dc5;
+
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+
+    return hash % shardCount;
+}
+
+/**
+ * Driver splitting the tables across multiple child drivers (shards).
+ *  - Rows are stored in the shard chosen by the shard function for the value of the shard field.
+ *  - Operations by the shard field (key lookups, inserts) are sent to a single shard.
+ *  - Finds with a filter setting the shard field (eq, in) are sent only to the matching shards.
+ *  - Any other operation is sent to all the shards, merging the results (sort, skip and limit are applied after merging).
+ *  - Sorted streams are merged row by row from the streams of the shards, without buffering the results.
+ *  - Merged results place the null values first in ascendant order, and last in descendant order (unless set with the sort keys).
+ *    If the shards support sort keys, that placement is sent to them. Otherwise, the shards must sort the null values the same way.
+ * Transactions and native aggregations are not supported.
+ */
+export class ShardedDriver implements DataSourceDriver {
+
+    /**
+     * Creates a data source for this driver
+     * @param name Name of the data source
+     * @param options Driver options
+     * @returns The data source
+     */
+    public static createDataSource(name: string, options: ShardedDriverOptions): DataSource {
+        return new DataSource(name, new ShardedDriver(options));
+    }
+
+    public upsert?: (table: string, keys: string[], row: GenericRow, updated: GenericRowUpdate) => Promise<UpsertResult>;
+
+    private shards: DataSourceDriver[];
+    private field: string;
+    private tables: { [table: string]: string };
+    private shardFunction: ShardFunction;
+
+    /**
+     * Constructor
+     * @param options Driver options
+     */
+    constructor(options: ShardedDriverOptions) {
+        if (!options.shards || options.shards.length === 0) {
+            throw new Error("The sharded driver requires at least one shard.");
+        }
+
+        this.shards = options.shards.slice();
+        this.field = options.field;
+        this.tables = options.tables || {};
+        this.shardFunction = options.shardFunction || hashShardValue;
+
+        // Optional operations are only available if all the shards implement them
+
+        if (this.shards.every(shard => !!shard.upsert)) {
+            this.upsert = async (table, keys, row, updated) => {
+                this.checkUpdate(table, updated);
+                return this.shards[this.getRowShard(table, row)].upsert(table, keys, row, updated);
+            };
+        }
+    }
+
+    /**
+     * Gets the name of the shard field of a table
+     * @param table The table
+     * @returns The name of the shard field
+     */
+    public getShardField(table: string): string {
+        return Object.prototype.hasOwnProperty.call(this.tables, table) ? this.tables[table] : this.field;
+    }
+
+    /**
+     * Gets the index of the shard for a value of the shard field
+     * @param value The value
+     * @returns The index of the shard
+     */
+    public getShard(value: GenericKeyValue): number {
+        const shard = this.shardFunction(value, this.shards.length);
+
+        if (!Number.isInteger(shard) || shard < 0 || shard >= this.shards.length) {
+            throw new Error("Invalid shard " + shard + " for the value " + value + ". The shard function must return an integer from 0 to " + (this.shards.length - 1) + ".");
+        }
+
+        return shard;
+    }
+
+    /**
+     * Gets the optional features supported by the driver.
+     * Only the features supported by all the shards are reported.
+     * @returns The capabilities
+     */
+    public getCapabilities(): DataSourceDriverCapabilities {
+        const capabilities = this.shards.map(shard => shard.getCapabilities ? (shard.getCapabilities() || {}) : {});
+
+        return {
+            updatePaths: capabilities.every(c => !!c.updatePaths),
+            filterOperations: (capabilities[0].filterOperations || []).filter(op => capabilities.every(c => (c.filterOperations || []).includes(op))),
+            sortKeys: capabilities.every(c => !!c.sortKeys),
+        };
+    }
+
+    public async findByKey(table: string, keyName: string, keyValue: GenericValue): Promise<GenericRow> {
+        if (keyName === this.getShardField(table)) {
+            return this.shards[this.getShard(<GenericKeyValue>keyValue)].findByKey(table, keyName, keyValue);
+        }
+
+        const rows = await Promise.all(this.shards.map(shard => shard.findByKey(table, keyName, keyValue)));
+
+        return rows.find(row => !!row) || null;
+    }
+
+    public async find(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions): Promise<GenericRow[]> {
+        const shards = this.getFilterShards(table, filter);
+
+        if (shards.length === 1) {
+            return shards[0].find(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions);
+        }
+
+        const sort = setNullsPlacement(getSortKeys(sortBy, sortDir, queryExtraOptions));
+        const shardOptions = this.getShardQueryOptions(sort, queryExtraOptions);
+
+        // Each shard returns the first skip + limit rows, then they are merged
+
+        const shardLimit = limit >= 0 ? (Math.max(skip, 0) + limit) : -1;
+
+        // The sort fields must be fetched in order to merge
+
+        const fetched = addSortFields(projection, sort);
+
+        const results = await Promise.all(shards.map(shard => shard.find(table, filter, sortBy, sortDir, -1, shardLimit, fetched.projection, shardOptions)));
+
+        let rows: GenericRow[] = [].concat(...results);
+
+        if (sort) {
+            rows.sort((a, b) => compareRows(a, b, sort));
+        }
+
+        if (skip > 0) {
+            rows = rows.slice(skip);
+        }
+
+        if (limit >= 0) {
+            rows = rows.slice(0, limit);
+        }
+
+        for (const row of rows) {
+            removeSortFields(row, fetched.extraFields, projection);
+        }
+
+        return rows;
+    }
+
+    public async count(table: string, filter: GenericFilter, queryExtraOptions: QueryExtraOptions): Promise<number> {
+        const counts = await Promise.all(this.getFilterShards(table, filter).map(shard => shard.count(table, filter, queryExtraOptions)));
+        return counts.reduce((total, count) => total + count, 0);
+    }
+
+    public async findStream(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, each: (row: GenericRow) => Promise<void>): Promise<void> {
+        const shards = this.getFilterShards(table, filter);
+
+        if (shards.length === 1) {
+            return shards[0].findStream(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions, each);
+        }
+
+        const sort = setNullsPlacement(getSortKeys(sortBy, sortDir, queryExtraOptions));
+
+        let toSkip = skip > 0 ? skip : 0;
+        let remaining = limit;
+
+        if (!sort) {
+            // Unsorted, the shards are streamed one after another
+
+            for (const shard of shards) {
+                if (remaining === 0) {
+                    break;
+                }
+                await shard.findStream(table, filter, sortBy, sortDir, -1, remaining >= 0 ? (remaining + toSkip) : -1, projection, queryExtraOptions, row => {
+                    if (toSkip > 0) {
+                        toSkip--;
+                        return Promise.resolve();
+                    }
+                    if (remaining > 0) {
+                        remaining--;
+                    }
+                    return each(row);
+                });
+            }
+
+            return;
+        }
+
+        // Sorted, the shard streams are merged (k-way merge), reading a row ahead from each shard
+
+        const fetched = addSortFields(projection, sort);
+        const shardOptions = this.getShardQueryOptions(sort, queryExtraOptions);
+        const shardLimit = limit >= 0 ? (toSkip + limit) : -1;
+        const iterators = shards.map(shard => makeStreamIterator<GenericRow>(next => {
+            return shard.findStream(table, filter, sortBy, sortDir, -1, shardLimit, fetched.projection, shardOptions, next);
+        }));
+
+        try {
+            const heads = await Promise.all(iterators.map(iterator => iterator.next()));
+
+            while (remaining !== 0) {
+                let first = -1;
+
+                for (let i = 0; i < heads.length; i++) {
+                    if (!heads[i].done && (first === -1 || compareRows(heads[i].value, heads[first].value, sort) < 0)) {
+                        first = i;
+                    }
+                }
+
+                if (first === -1) {
+                    break;
+                }
+
+                const row = heads[first].value;
+
+                heads[first] = await iterators[first].next();
+
+                if (toSkip > 0) {
+                    toSkip--;
+                    continue;
+                }
+
+                if (remaining > 0) {
+                    remaining--;
+                }
+
+                removeSortFields(row, fetched.extraFields, projection);
+
+                await each(row);
+            }
+        } finally {
+            await Promise.all(iterators.map(iterator => iterator.return()));
+        }
+    }
+
+    public async findStreamSync(table: string, filter: GenericFilter, sortBy: string, sortDir: SortDirection, skip: number, limit: number, projection: Set<string>, queryExtraOptions: QueryExtraOptions, each: (row: any) => void): Promise<void> {
+        return this.findStream(table, filter, sortBy, sortDir, skip, limit, projection, queryExtraOptions, async row => {
+            each(row);
+        });
+    }
+
+    public async insert(table: string, row: GenericRow, key: string, callback?: (value: GenericKeyValue) => void): Promise<void> {
+        return this.shards[this.getRowShard(table, row)].insert(table, row, key, callback);
+    }
+
+    public async batchInsert(table: string, rows: GenericRow[]): Promise<void> {
+        const groups = new Map<number, GenericRow[]>();
+
+        for (const row of rows) {
+            const shard = this.getRowShard(table, row);
+            if (!groups.has(shard)) {
+                groups.set(shard, []);
+            }
+            groups.get(shard).push(row);
+        }
+
+        await Promise.all(Array.from(groups.entries()).map(([shard, shardRows]) => this.shards[shard].batchInsert(table, shardRows)));
+    }
+
+    public async update(table: string, keyName: string, keyValue: GenericKeyValue, updated: GenericRow): Promise<void | number> {
+        this.checkUpdate(table, updated);
+
+        if (keyName === this.getShardField(table)) {
+            return this.shards[this.getShard(keyValue)].update(table, keyName, keyValue, updated);
+        }
+
+        return sumAffectedRows(await Promise.all(this.shards.map(shard => shard.update(table, keyName, keyValue, updated))));
+    }
+
+    public async updateMany(table: string, filter: GenericFilter, updated: GenericRowUpdate): Promise<number> {
+        this.checkUpdate(table, updated);
+        const counts = await Promise.all(this.getFilterShards(table, filter).map(shard => shard.updateMany(table, filter, updated)));
+        return counts.reduce((total, count) => total + count, 0);
+    }
+
+    public async delete(table: string, keyName: string, keyValue: GenericKeyValue): Promise<boolean> {
+        if (keyName === this.getShardField(table)) {
+            return this.shards[this.getShard(keyValue)].delete(table, keyName, keyValue);
+        }
+
+        const results = await Promise.all(this.shards.map(shard => shard.delete(table, keyName, keyValue)));
+
+        return results.some(deleted => deleted);
+    }
+
+    public async deleteMany(table: string, filter: GenericFilter): Promise<number> {
+        const counts = await Promise.all(this.getFilterShards(table, filter).map(shard => shard.deleteMany(table, filter)));
+        return counts.reduce((total, count) => total + count, 0);
+    }
+
+    public async sum(table: string, filter: GenericFilter, id: string, field: string): Promise<number> {
+        const sums = await Promise.all(this.getFilterShards(table, filter).map(shard => shard.sum(table, filter, id, field)));
+        return sums.reduce((total, sum) => total + (sum || 0), 0);
+    }
+
+    public async increment(table: string, keyName: string, keyValue: GenericKeyValue, prop: string, inc: number): Promise<void | number> {
+        if (prop === this.getShardField(table)) {
+            throw new Error("Cannot increment the shard field " + prop + " of the table " + table + ".");
+        }
+
+        if (keyName === this.getShardField(table)) {
+            return this.shards[this.getShard(keyValue)].increment(table, keyName, keyValue, prop, inc);
+        }
+
+        return sumAffectedRows(await Promise.all(this.shards.map(shard => shard.increment(table, keyName, keyValue, prop, inc))));
+    }
+
+    /**
+     * Gets the shard of a row
+     * @param table The table
+     * @param row The row
+     * @returns The index of the shard
+     */
+    private getRowShard(table: string, row: GenericRow): number {
+        const field = this.getShardField(table);
+        const value = row[field];
+
+        if (value === null || value === undefined) {
+            throw new Error("Cannot find the shard for a row of the table " + table + ": The shard field " + field + " is not set.");
+        }
+
+        return this.getShard(value);
+    }
+
+    /**
+     * Checks an update does not change the shard field (rows cannot move between shards)
+     * @param table The table
+     * @param updated The update
+     */
+    private checkUpdate(table: string, updated: GenericRowUpdate) {
+        const field = this.getShardField(table);
+
+        if (updated && Object.prototype.hasOwnProperty.call(updated, field)) {
+            throw new Error("Cannot update the shard field " + field + " of the table " + table + ".");
+        }
+    }
+
+    /**
+     * Gets the query options for the shards of a merged query.
+     * If the shards support sort keys, the sort keys (with a fixed placement of the null values) are sent to them.
+     * @param sort The sort keys (see setNullsPlacement)
+     * @param queryExtraOptions The query options
+     * @returns The query options for the shards
+     */
+    private getShardQueryOptions(sort: SortKey[], queryExtraOptions: QueryExtraOptions): QueryExtraOptions {
+        if (!sort || !this.getCapabilities().sortKeys) {
+            return queryExtraOptions;
+        }
+        return Object.assign({}, queryExtraOptions, { sort: sort });
+    }
+
+    /**
+     * Gets the shards that may contain rows matching a filter
+     * @param table The table
+     * @param filter The filter
+     * @returns The list of shards
+     */
+    private getFilterShards(table: string, filter: GenericFilter): DataSourceDriver[] {
+        const values = getShardFieldValues(filter, this.getShardField(table));
+
+        if (!values) {
+            return this.shards;
+        }
+
+        const indexes = new Set(values.map(value => this.getShard(value)));
+
+        if (indexes.size === 0) {
+            // Nothing can match, but a shard is still queried to get a valid result
+            return [this.shards[0]];
+        }
+
+        return this.shards.filter((shard, i) => indexes.has(i));
+    }
+}
+
+/**
+ * Gets the sort keys of a query
+ * @returns The sort keys, or null if the query is not sorted
+ */
+function getSortKeys(sortBy: string, sortDir: SortDirection, queryExtraOptions: QueryExtraOptions): SortKey[] {
+    if (queryExtraOptions && queryExtraOptions.sort && queryExtraOptions.sort.length > 0) {
+        return queryExtraOptions.sort;
+    } else if (sortBy) {
+        return [{ by: sortBy, dir: sortDir || "asc" }];
+    } else {
+        return null;
+    }
+}
+
+/**
+ * Adds the sort fields missing from a projection, since they are required to merge the rows of the shards
+ * @param projection The projection (null to fetch all the fields)
+ * @param sort The sort keys
+ * @returns The projection to send to the shards, and the added fields
+ */
+function addSortFields(projection: Set<string>, sort: SortKey[]): { projection: Set<string>, extraFields: string[] } {
+    if (!projection || !sort) {
+        return { projection: projection, extraFields: [] };
+    }
+
+    const fields = Array.from(projection);
+    const extraFields: string[] = [];
+
+    for (const key of sort) {
+        if (!extraFields.includes(key.by) && !fields.some(f => key.by === f || key.by.startsWith(f + "."))) {
+            extraFields.push(key.by);
+        }
+    }
+
+    return {
+        projection: extraFields.length > 0 ? new Set(fields.concat(extraFields)) : projection,
+        extraFields: extraFields,
+    };
+}
+
+/**
+ * Removes the sort fields added to the projection from a row (see addSortFields).
+ * Objects created only to hold a nested sort field are removed as well.
+ * @param row The row
+ * @param extraFields The added fields
+ * @param projection The original projection
+ */
+function removeSortFields(row: GenericRow, extraFields: string[], projection: Set<string>) {
+    for (const path of extraFields) {
+        const parts = splitFieldPath(path);
+        const objects: any[] = [row];
+
+        for (let i = 0; i < parts.length - 1; i++) {
+            const value = objects[i][parts[i]];
+            if (!value || typeof value !== "object") {
+                break;
+            }
+            objects.push(value);
+        }
+
+        if (objects.length < parts.length) {
+            continue;
+        }
+
+        delete objects[parts.length - 1][parts[parts.length - 1]];
+
+        for (let i = parts.length - 1; i > 0; i--) {
+            const prefix = parts.slice(0, i).join(".");
+            if (Object.keys(objects[i]).length > 0 || Array.from(projection).some(f => f === prefix || f.startsWith(prefix + "."))) {
+                break;
+            }
+            delete objects[i - 1][parts[i - 1]];
+        }
+    }
+}
+
+/**
+ * Sets the placement of the null values for the sort keys not setting it,
+ * to the default order of the merge (first in ascendant order, last in descendant order)
+ * @param sort The sort keys
+ * @returns The sort keys, with the placement of the null values
+ */
+function setNullsPlacement(sort: SortKey[]): SortKey[] {
+    if (!sort) {
+        return null;
+    }
+    return sort.map(key => key.nulls ? key : Object.assign({}, key, { nulls: key.dir === "desc" ? "last" : "first" }));
+}
+
+/**
+ * Finds the values of the shard field a filter is restricted to
+ * @param filter The filter
+ * @param field The shard field
+ * @returns The list of values, or null if the filter is not restricted to a list of values
+ */
+function getShardFieldValues(filter: GenericFilter, field: string): GenericKeyValue[] {
+    if (!filter) {
+        return null;
+    }
+
+    switch (filter.operation) {
+    case "eq":
+        return (filter.key === field && filter.value !== null && filter.value !== undefined) ? [filter.value] : null;
+    case "in":
+        return filter.key === field ? filter.values.filter(v => v !== null && v !== undefined) : null;
+    case "and":
+    {
+        let result: GenericKeyValue[] = null;
+        for (const child of filter.children) {
+            const values = getShardFieldValues(child, field);
+            if (values && (!result || values.length < result.length)) {
+                result = values;
+            }
+        }
+        return result;
+    }
+    case "or":
+    {
+        let result: GenericKeyValue[] = [];
+        for (const child of filter.children) {
+            const values = getShardFieldValues(child, field);
+            if (!values) {
+                return null;
+            }
+            result = result.concat(values);
+        }
+        return result;
+    }
+    default:
+        return null;
+    }
+}
+
+/**
+ * Adds the number of affected rows reported by the shards
+ * @param counts The results of the shards
+ * @returns The total, or undefined if any shard did not report a number
+ */
+function sumAffectedRows(counts: (void | number)[]): void | number {
+    if (counts.some(count => typeof count !== "number")) {
+        return undefined;
+    }
+    return (counts as number[]).reduce((total, count) => total + count, 0);
+}
@@ -0,0 +1,127 @@
+// Streams
+// (Typescript Bean ORM)
+
+"use strict";
+
+/**
+ * Error used to stop a driver stream when the consumer stops iterating.
+ */
+export class StreamCancelledError extends Error {
+    constructor() {
+        super("The stream was cancelled by the consumer");
+    }
+}
+
+/**
+ * Turns a callback-based stream (like DataSourceDriver.findStream) into an async iterator.
+ * The stream is started when the first item is requested.
+ * Each callback call waits until the consumer requests the next item (backpressure).
+ * If the consumer stops iterating (break, return), the callback throws StreamCancelledError,
+ * so the driver can close the underlying stream.
+ * @param start Function to start the stream, given the callback for each item
+ * @returns The async iterator
+ */
+export function makeStreamIterator<R>(start: (each: (item: R) => Promise<void>) => Promise<void>): AsyncIterableIterator<R> {
+    let started = false;
+    let finished = false;
+    let cancelled = false;
+    let error: any = null;
+
+    let buffered: { item: R } = null;
+    let request: { resolve: (res: IteratorResult<R>) => void, reject: (err: any) => void } = null;
+    let resume: () => void = null;
+    let producer: Promise<void> = null;
+
+    const settle = () => {
+        if (!request) {
+            return;
+        }
+
+        const req = request;
+
+        if (buffered) {
+            const item = buffered.item;
+            request = null;
+            buffered = null;
+            req.resolve({ value: item, done: false });
+        } else if (error) {
+            const err = error;
+            request = null;
+            error = null;
+            finished = true;
+            req.reject(err);
+        } else if (finished) {
+            request = null;
+            req.resolve({ value: undefined, done: true });
+        }
+    };
+
+    const each = (item: R): Promise<void> => {
+        return new Promise<void>((resolve, reject) => {
+            if (cancelled) {
+                reject(new StreamCancelledError());
+                return;
+            }
+            buffered = { item: item };
+            resume = () => {
+                resume = null;
+                if (cancelled) {
+                    reject(new StreamCancelledError());
+                } else {
+                    resolve();
+                }
+            };
+            settle();
+        });
+    };
+
+    const iterator: AsyncIterableIterator<R> = {
+        next: (): Promise<IteratorResult<R>> => {
+            return new Promise<IteratorResult<R>>((resolve, reject) => {
+                if (request) {
+                    reject(new Error("Cannot request the next item before the previous request is resolved"));
+                    return;
+                }
+
+                request = { resolve: resolve, reject: reject };
+
+                if (!started) {
+                    started = true;
+                    producer = start(each).then(() => {
+                        finished = true;
+                        settle();
+                    }, err => {
+                        if (err instanceof StreamCancelledError) {
+                            finished = true;
+                        } else {
+                            error = err;
+                        }
+                        settle();
+                    });
+                } else if (resume) {
+                    resume();
+                }
+
+                settle();
+            });
+        },
+
+        return: async (): Promise<IteratorResult<R>> => {
+            cancelled = true;
+            if (resume) {
+                resume();
+            }
+            if (producer) {
+                await producer;
+            }
+            finished = true;
+            return { value: undefined, done: true };
+        },
+
+        [Symbol.asyncIterator]: function () {
+            return iterator;
+        },
+    };
+
+    return iterator;
+}
@@ -0,0 +1,67 @@
+// Transaction
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { DataSource } from "./data-source";
+import { TransactionDriver } from "./data-source-driver";
+
+/**
+ * Represents a transaction started on a data source.
+ * Pass it to the finders, data access objects and data models
+ * to run operations as part of the transaction.
+ */
+export class Transaction {
+    /**
+     * The data source that started the transaction
+     */
+    public dataSource: DataSource;
+
+    /**
+     * The driver bound to the transaction
+     */
+    public driver: TransactionDriver;
+
+    private finished: boolean;
+
+    /**
+     * Constructor
+     * @param dataSource The data source
+     * @param driver The driver bound to the transaction
+     */
+    constructor(dataSource: DataSource, driver: TransactionDriver) {
+        this.dataSource = dataSource;
+        this.driver = driver;
+        this.finished = false;
+    }
+
+    /**
+     * @returns true if the transaction was already committed or rolled back
+     */
+    public isFinished(): boolean {
+        return this.finished;
+    }
+
+    /**
+     * Commits the transaction.
+     * If the commit fails, the transaction is not finished, so it can be rolled back.
+     */
+    public async commit(): Promise<void> {
+        if (this.finished) {
+            throw new Error("Cannot commit: The transaction is already finished.");
+        }
+        await this.driver.commit();
+        this.finished = true;
+    }
+
+    /**
+     * Rolls back the transaction
+     */
+    public async rollback(): Promise<void> {
+        if (this.finished) {
+            throw new Error("Cannot rollback: The transaction is already finished.");
+        }
+        this.finished = true;
+        return this.driver.rollback();
+    }
+}
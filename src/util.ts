@@ -3,6 +3,8 @@
 
 "use strict";
 
+import { GenericRow, SortKey } from "./common";
+
 /**
  * Escapes regular expressions espacial characters.
  * @param text The input text.
@@ -10,3 +12,138 @@
 export function escapeRegExp(text) {
     return text.replace(/[-[\]{}()*+?.,\\^$|#\s]/g, "\\$&");
 }
+
+/**
+ * Gets the value of a field, given its path.
+ * Dotted paths (eg: "address.city") are resolved into nested objects,
+ * unless the object has a property with that exact name.
+ * @param obj The object (row or data model)
+ * @param path The field path
+ * @returns The value, or undefined if not found
+ */
+export function getFieldPathValue(obj: any, path: string): any {
+    if (obj === null || obj === undefined) {
+        return undefined;
+    }
+    if (path.indexOf(".") === -1 || Object.prototype.hasOwnProperty.call(obj, path)) {
+        return obj[path];
+    }
+    let value = obj;
+    for (const part of path.split(".")) {
+        if (value === null || value === undefined || typeof value !== "object" || !Object.prototype.hasOwnProperty.call(value, part)) {
+            return undefined;
+        }
+        value = value[part];
+    }
+    return value;
+}
+
+/**
+ * Checks if two values are equal.
+ * Null and undefined are considered equal. Dates are compared by time.
+ * @param a First value
+ * @param b Second value
+ * @returns true if the values are equal
+ */
+export function valuesEqual(a: any, b: any): boolean {
+    if (a === undefined) {
+        a = null;
+    }
+    if (b === undefined) {
+        b = null;
+    }
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime();
+    }
+    return a === b;
+}
+
+/**
+ * Checks if two values are equal, comparing arrays and objects by their content.
+ * Null and undefined are considered equal. Dates are compared by time.
+ * @param a First value
+ * @param b Second value
+ * @returns true if the values are equal
+ */
+export function valuesDeepEqual(a: any, b: any): boolean {
+    if (a instanceof Array || b instanceof Array) {
+        if (!(a instanceof Array) || !(b instanceof Array) || a.length !== b.length) {
+            return false;
+        }
+        return a.every((v, i) => valuesDeepEqual(v, b[i]));
+    }
+    if (typeof a === "object" && a !== null && !(a instanceof Date) && typeof b === "object" && b !== null && !(b instanceof Date)) {
+        const keys = new Set(Object.keys(a).concat(Object.keys(b)));
+        for (const key of keys) {
+            if (!valuesDeepEqual(a[key], b[key])) {
+                return false;
+            }
+        }
+        return true;
+    }
+    return valuesEqual(a, b);
+}
+
+/**
+ * Compares two values, for sorting.
+ * Null values go first. Dates are compared by time.
+ * @param a First value
+ * @param b Second value
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ */
+export function compareValues(a: any, b: any): number {
+    const aNull = a === null || a === undefined;
+    const bNull = b === null || b === undefined;
+    if (aNull || bNull) {
+        if (aNull && bNull) {
+            return 0;
+        }
+        return aNull ? -1 : 1;
+    }
+    if (a instanceof Date) {
+        a = a.getTime();
+    }
+    if (b instanceof Date) {
+        b = b.getTime();
+    }
+    if (a < b) {
+        return -1;
+    } else if (a > b) {
+        return 1;
+    } else {
+        return 0;
+    }
+}
+
+/**
+ * Compares two rows, given a list of sort keys
+ * By default, null values are placed first in ascendant order, and last in descendant order.
+ * @param a The first row
+ * @param b The second row
+ * @param sort The sort keys
+ * @returns Negative if a goes first, positive if b goes first, 0 if equal
+ */
+export function compareRows(a: GenericRow, b: GenericRow, sort: SortKey[]): number {
+    for (const key of sort) {
+        const va = getFieldPathValue(a, key.by);
+        const vb = getFieldPathValue(b, key.by);
+        const aNull = va === null || va === undefined;
+        const bNull = vb === null || vb === undefined;
+
+        let c: number;
+
+        if (key.nulls && aNull !== bNull) {
+            c = (aNull === (key.nulls === "first")) ? -1 : 1;
+        } else {
+            c = compareValues(va, vb);
+            if (key.dir === "desc") {
+                c = -c;
+            }
+        }
+
+        if (c !== 0) {
+            return c;
+        }
+    }
+    return 0;
+}
@@ -0,0 +1,269 @@
+// Validation
+// (Typescript Bean ORM)
+
+"use strict";
+
+import { GenericValue } from "./common";
+import { addFieldValidationRules, getModelSchema } from "./schema";
+import { compareValues, valuesEqual } from "./util";
+
+/**
+ * Custom field validator.
+ * Returns an error message if the value is not valid,
+ * or null (or undefined) if the value is valid.
+ * @param value The value of the field
+ * @param model The data model instance
+ */
+export type FieldValidator = (value: GenericValue, model: any) => Promise<string | null | void> | string | null | void;
+
+/**
+ * Validation rules of a field
+ */
+export interface FieldValidationRules {
+    /**
+     * The field cannot be null, undefined or an empty string
+     */
+    required?: boolean;
+
+    /**
+     * Min value (numbers, bigints and dates)
+     */
+    min?: number | bigint | Date;
+
+    /**
+     * Max value (numbers, bigints and dates)
+     */
+    max?: number | bigint | Date;
+
+    /**
+     * Min length (strings and arrays)
+     */
+    minLength?: number;
+
+    /**
+     * Max length (strings and arrays)
+     */
+    maxLength?: number;
+
+    /**
+     * Regular expression the value must match (strings)
+     */
+    pattern?: RegExp;
+
+    /**
+     * List of allowed values
+     */
+    enum?: GenericValue[];
+
+    /**
+     * Custom validators
+     */
+    custom?: FieldValidator[];
+}
+
+/**
+ * Name of a validation rule
+ */
+export type ValidationRuleName = "required" | "min" | "max" | "minLength" | "maxLength" | "pattern" | "enum" | "custom";
+
+/**
+ * Validation failure for a field
+ */
+export interface FieldValidationFailure {
+    /**
+     * Name of the field
+     */
+    field: string;
+
+    /**
+     * Name of the failed rule
+     */
+    rule: ValidationRuleName;
+
+    /**
+     * Error message
+     */
+    message: string;
+}
+
+/**
+ * Error thrown when a data model is not valid.
+ * Lists every failed validation rule.
+ */
+export class ValidationError extends Error {
+    /**
+     * List of failures
+     */
+    public failures: FieldValidationFailure[];
+
+    /**
+     * Constructor
+     * @param failures List of failures
+     */
+    constructor(failures: FieldValidationFailure[]) {
+        super("Validation failed: " + failures.map(f => f.field + " " + f.message).join("; "));
+        this.name = "ValidationError";
+        this.failures = failures;
+    }
+
+    /**
+     * @returns The list of fields with at least one failure
+     */
+    public getFields(): string[] {
+        return Array.from(new Set(this.failures.map(f => f.field)));
+    }
+}
+
+/**
+ * Property decorator. Sets validation rules for a field.
+ * @param rules The validation rules
+ */
+export function Validate(rules: FieldValidationRules): PropertyDecorator {
+    return function (target: Object, propertyKey: string | symbol) {
+        addFieldValidationRules(target.constructor, propertyKey.toString(), rules);
+    };
+}
+
+/**
+ * Property decorator. The field cannot be null, undefined or an empty string.
+ */
+export function Required(): PropertyDecorator {
+    return Validate({ required: true });
+}
+
+/**
+ * Property decorator. Sets the min value of the field.
+ * @param min The min value
+ */
+export function Min(min: number | bigint | Date): PropertyDecorator {
+    return Validate({ min: min });
+}
+
+/**
+ * Property decorator. Sets the max value of the field.
+ * @param max The max value
+ */
+export function Max(max: number | bigint | Date): PropertyDecorator {
+    return Validate({ max: max });
+}
+
+/**
+ * Property decorator. Sets the allowed length of the field (strings and arrays).
+ * @param minLength The min length
+ * @param maxLength Optional. The max length
+ */
+export function Length(minLength: number, maxLength?: number): PropertyDecorator {
+    const rules: FieldValidationRules = { minLength: minLength };
+    if (maxLength !== undefined) {
+        rules.maxLength = maxLength;
+    }
+    return Validate(rules);
+}
+
+/**
+ * Property decorator. The field must match a regular expression.
+ * @param pattern The regular expression
+ */
+export function Pattern(pattern: RegExp): PropertyDecorator {
+    return Validate({ pattern: pattern });
+}
+
+/**
+ * Property decorator. The field must be one of the allowed values.
+ * @param values The allowed values
+ */
+export function Enum(values: GenericValue[]): PropertyDecorator {
+    return Validate({ enum: values });
+}
+
+/**
+ * Property decorator. Adds a custom validator (can be async) to the field.
+ * @param validator The validator
+ */
+export function Validator(validator: FieldValidator): PropertyDecorator {
+    return Validate({ custom: [validator] });
+}
+
+/**
+ * Validates a data model instance, using the rules declared with decorators.
+ * @param model The data model instance
+ * @param fields Optional. Only validate these fields. By default, all the fields with rules are validated.
+ * @returns The list of failures (empty if valid)
+ */
+export async function validateModel(model: any, fields?: string[]): Promise<FieldValidationFailure[]> {
+    const schema = getModelSchema(model.constructor);
+
+    if (!schema) {
+        return [];
+    }
+
+    const failures: FieldValidationFailure[] = [];
+
+    for (const validation of schema.validations) {
+        if (fields && !fields.includes(validation.name)) {
+            continue;
+        }
+
+        const value = model[validation.name];
+
+        for (const failure of checkFieldRules(validation.rules, value)) {
+            failures.push({ field: validation.name, rule: failure.rule, message: failure.message });
+        }
+
+        for (const validator of (validation.rules.custom || [])) {
+            const message = await validator(value, model);
+            if (message) {
+                failures.push({ field: validation.name, rule: "custom", message: message });
+            }
+        }
+    }
+
+    return failures;
+}
+
+function checkFieldRules(rules: FieldValidationRules, value: GenericValue): { rule: ValidationRuleName, message: string }[] {
+    const failures: { rule: ValidationRuleName, message: string }[] = [];
+
+    if (value === null || value === undefined || value === "") {
+        // Empty values only fail the required rule
+        if (rules.required) {
+            failures.push({ rule: "required", message: "is required" });
+        }
+        return failures;
+    }
+
+    if (rules.min !== undefined && rules.min !== null && compareValues(value, rules.min) < 0) {
+        failures.push({ rule: "min", message: "must be greater or equal than " + formatValue(rules.min) });
+    }
+
+    if (rules.max !== undefined && rules.max !== null && compareValues(value, rules.max) > 0) {
+        failures.push({ rule: "max", message: "must be less or equal than " + formatValue(rules.max) });
+    }
+
+    if (typeof value === "string" || value instanceof Array) {
+        if (typeof rules.minLength === "number" && value.length < rules.minLength) {
+            failures.push({ rule: "minLength", message: "must have a length of at least " + rules.minLength });
+        }
+
+        if (typeof rules.maxLength === "number" && value.length > rules.maxLength) {
+            failures.push({ rule: "maxLength", message: "must have a length of at most " + rules.maxLength });
+        }
+    }
+
+    if (rules.pattern && (typeof value !== "string" || !new RegExp(rules.pattern.source, rules.pattern.flags.replace(/[gy]/g, "")).test(value))) {
+        failures.push({ rule: "pattern", message: "must match " + rules.pattern.toString() });
+    }
+
+    if (rules.enum && !rules.enum.some(v => valuesEqual(v, value))) {
+        failures.push({ rule: "enum", message: "must be one of: " + rules.enum.map(formatValue).join(", ") });
+    }
+
+    return failures;
+}
+
+function formatValue(value: GenericValue): string {
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    return String(value);
+}
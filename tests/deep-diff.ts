@@ -0,0 +1,117 @@
+// Test (Deep diff)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataSource, GenericRowUpdate, MemoryDriver } from '../src/index';
+import { Profile } from './models/profile';
+
+const driver = new MemoryDriver({
+    tables: {
+        profile: { primaryKey: "id" },
+    },
+});
+
+// Records the updates received by the driver
+const updates: GenericRowUpdate[] = [];
+
+const recordingDriver = Object.create(driver);
+
+recordingDriver.update = function (table: string, keyName: string, keyValue: any, updated: GenericRowUpdate) {
+    updates.push(updated);
+    return driver.update.call(this, table, keyName, keyValue, updated);
+};
+
+DataSource.set("deep-diff", new DataSource("deep-diff", recordingDriver));
+
+describe("Deep diff", () => {
+
+    beforeEach(() => {
+        updates.length = 0;
+    });
+
+    it("Nested changes are saved as dotted paths", async () => {
+        await new Profile({
+            id: 1,
+            name: "Alice",
+            settings: { theme: "dark", notifications: { email: true, push: false }, legacy: 1 },
+            tags: ["a"],
+        }).insert();
+
+        const profile = await Profile.finder.findByKey(1);
+
+        profile.settings.notifications.push = true;
+        profile.settings.language = "en";
+        delete profile.settings.legacy;
+        profile.tags.push("b");
+
+        expect(await profile.save()).to.be.true;
+
+        expect(updates.length).to.be.equal(1);
+        expect(Object.keys(updates[0])).to.be.eql(["settings", "tags"]);
+        expect(updates[0].settings.update).to.be.equal("paths");
+        expect(updates[0].settings.paths).to.be.eql([
+            { path: "settings.legacy", unset: true },
+            { path: "settings.language", value: "en" },
+            { path: "settings.notifications.push", value: true },
+        ]);
+        expect(updates[0].tags).to.be.eql(["a", "b"]);
+
+        const stored = await Profile.finder.findByKey(1);
+
+        expect(stored.settings).to.be.eql({ theme: "dark", notifications: { email: true, push: true }, language: "en" });
+        expect(stored.tags).to.be.eql(["a", "b"]);
+    });
+
+    it("Paths only change the nested values", async () => {
+        const p1 = await Profile.finder.findByKey(1);
+        const p2 = await Profile.finder.findByKey(1);
+
+        p1.settings.theme = "light";
+        await p1.save();
+
+        p2.settings.notifications.email = false;
+        await p2.save();
+
+        expect((await Profile.finder.findByKey(1)).settings).to.be.eql({ theme: "light", notifications: { email: false, push: true }, language: "en" });
+    });
+
+    it("Arrays are replaced as a whole", async () => {
+        const profile = await Profile.finder.findByKey(1);
+
+        profile.settings.sizes = [1, 2];
+        await profile.save();
+
+        updates.length = 0;
+
+        profile.settings.sizes[1] = 3;
+        profile.tags[1] = "c";
+        await profile.save();
+
+        expect(updates[0].settings.paths).to.be.eql([{ path: "settings.sizes", value: [1, 3] }]);
+        expect(updates[0].tags).to.be.eql(["a", "c"]);
+
+        const stored = await Profile.finder.findByKey(1);
+
+        expect(stored.settings.sizes).to.be.eql([1, 3]);
+        expect(stored.tags).to.be.eql(["a", "c"]);
+    });
+
+    it("Fallback to full replacement for drivers without path support", async () => {
+        recordingDriver.getCapabilities = () => {
+            return {};
+        };
+
+        try {
+            const profile = await Profile.finder.findByKey(1);
+
+            profile.settings.theme = "blue";
+            await profile.save();
+
+            expect(updates[0].settings).to.be.eql({ theme: "blue", notifications: { email: false, push: true }, language: "en", sizes: [1, 3] });
+            expect((await Profile.finder.findByKey(1)).settings.theme).to.be.equal("blue");
+        } finally {
+            delete recordingDriver.getCapabilities;
+        }
+    });
+});
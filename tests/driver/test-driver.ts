@@ -2,7 +2,7 @@
 
 "use strict";
 
-import { DataSourceDriver, DataSource, GenericKeyValue, GenericRow, SortDirection, GenericFilter, GenericRowUpdate, QueryExtraOptions } from "../../src/index";
+import { DataSourceDriver, DataSource, GenericKeyValue, GenericRow, SortDirection, GenericFilter, GenericRowUpdate, QueryExtraOptions, TransactionDriver, makeCopyOfObject } from "../../src/index";
 
 function matchesFilter(row: any, filter: GenericFilter): boolean {
     if (!filter) {
@@ -66,13 +66,33 @@ export class TestDriver implements DataSourceDriver {
         return new DataSource("tsbean.driver.test", driver);
     }
 
-    private data: Map<string, any[]>;
+    protected data: Map<string, any[]>;
 
     constructor(/* Pass here the connection object */) {
         this.data = new Map();
     }
 
-    private getTable(table: string): any[] {
+    /**
+     * Starts a new transaction
+     * @returns A driver bound to the transaction
+     */
+    public async beginTransaction(): Promise<TransactionDriver> {
+        return new TestTransactionDriver(this);
+    }
+
+    /**
+     * Makes a copy of the stored data
+     * @returns The copy
+     */
+    public copyData(): Map<string, any[]> {
+        const copy = new Map();
+        this.data.forEach((rows, table) => {
+            copy.set(table, rows.map(makeCopyOfObject));
+        });
+        return copy;
+    }
+
+    protected getTable(table: string): any[] {
         if (!this.data.has(table)) {
             this.data.set(table, []);
         }
@@ -465,3 +485,104 @@ export class TestDriver implements DataSourceDriver {
         });
     }
 }
+
+/**
+ * Transaction driver class.
+ * Works over a copy of the data, recording the write operations (journal).
+ * On commit, the operations are applied to the original data, keeping the changes made outside the transaction.
+ */
+export class TestTransactionDriver extends TestDriver implements TransactionDriver {
+    private parent: TestDriver;
+    private journal: ((driver: TestDriver) => Promise<any>)[];
+    private finished: boolean;
+
+    constructor(parent: TestDriver) {
+        super();
+        this.parent = parent;
+        this.data = parent.copyData();
+        this.journal = [];
+        this.finished = false;
+    }
+
+    public async beginTransaction(): Promise<TransactionDriver> {
+        throw new Error("Nested transactions are not supported");
+    }
+
+    public async insert(table: string, row: GenericRow, key: string, callback?: (value: GenericKeyValue) => void): Promise<void> {
+        const copy = makeCopyOfObject(row);
+        await super.insert(table, row, key, callback);
+        this.journal.push(driver => driver.insert(table, copy, key));
+    }
+
+    public async batchInsert(table: string, rows: GenericRow[]): Promise<void> {
+        const copy = makeCopyOfObject(rows);
+        await super.batchInsert(table, rows);
+        this.journal.push(driver => driver.batchInsert(table, copy));
+    }
+
+    public async update(table: string, keyName: string, keyValue: GenericKeyValue, updated: GenericRowUpdate): Promise<void> {
+        const copy = makeCopyOfObject(updated);
+        await super.update(table, keyName, keyValue, updated);
+        this.journal.push(driver => driver.update(table, keyName, keyValue, copy));
+    }
+
+    public async updateMany(table: string, filter: GenericFilter, updated: GenericRowUpdate): Promise<number> {
+        const copy = makeCopyOfObject(updated);
+        const affected = await super.updateMany(table, filter, updated);
+        this.journal.push(driver => driver.updateMany(table, filter, copy));
+        return affected;
+    }
+
+    public async delete(table: string, keyName: string, keyValue: GenericKeyValue): Promise<boolean> {
+        const deleted = await super.delete(table, keyName, keyValue);
+        this.journal.push(driver => driver.delete(table, keyName, keyValue));
+        return deleted;
+    }
+
+    public async deleteMany(table: string, filter: GenericFilter): Promise<number> {
+        const affected = await super.deleteMany(table, filter);
+        this.journal.push(driver => driver.deleteMany(table, filter));
+        return affected;
+    }
+
+    public async increment(table: string, keyName: string, keyValue: GenericKeyValue, prop: string, inc: number): Promise<void> {
+        await super.increment(table, keyName, keyValue, prop, inc);
+        this.journal.push(driver => driver.increment(table, keyName, keyValue, prop, inc));
+    }
+
+    /**
+     * Commits the transaction
+     */
+    public async commit(): Promise<void> {
+        const journal = this.finish();
+        for (const operation of journal) {
+            await operation(this.parent);
+        }
+    }
+
+    /**
+     * Rolls back the transaction
+     */
+    public async rollback(): Promise<void> {
+        this.finish();
+    }
+
+    protected getTable(table: string): any[] {
+        if (this.finished) {
+            throw new Error("The transaction is already finished");
+        }
+        return super.getTable(table);
+    }
+
+    /**
+     * Marks the transaction as finished, discarding the copy of the data
+     * @returns The journal
+     */
+    private finish(): ((driver: TestDriver) => Promise<any>)[] {
+        const journal = this.journal;
+        this.finished = true;
+        this.journal = [];
+        this.data = new Map();
+        return journal;
+    }
+}
@@ -0,0 +1,92 @@
+// Test (Filter serialization)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, InvalidFilterError } from '../src/index';
+
+function expectInvalid(json: any, path: string, options?: any) {
+    let error: Error = null;
+
+    try {
+        DataFilter.fromJSON(json, options);
+    } catch (ex) {
+        error = ex;
+    }
+
+    expect(error).to.be.instanceOf(InvalidFilterError);
+    expect((<InvalidFilterError>error).path).to.be.equal(path);
+}
+
+describe("Filter serialization", () => {
+
+    it("Round trip", () => {
+        const filter = DataFilter.and<any>(
+            DataFilter.greaterOrEquals("createdAt", new Date("2020-01-02T03:04:05.000Z")),
+            DataFilter.into("balance", [BigInt("12345678901234567890"), 7]),
+            DataFilter.not(DataFilter.startsWith("name", "a.b", true)),
+            DataFilter.or(DataFilter.isNull("deletedAt"), DataFilter.like("email", "%@example.com", true)),
+            DataFilter.between("age", 18, 65),
+        );
+
+        const json = JSON.stringify(filter);
+        const parsed = DataFilter.fromJSON(json);
+
+        expect(parsed.query).to.be.eql(filter.query);
+        expect(JSON.stringify(parsed)).to.be.equal(json);
+
+        const regex = (<any>parsed.query).children[2].child.regexp;
+
+        expect(regex).to.be.instanceOf(RegExp);
+        expect(regex.test("A.Bc")).to.be.true;
+        expect(regex.test("aXb")).to.be.false;
+
+        // Stateful flags are removed when serializing
+        expect(new DataFilter<any>({ operation: "regex", key: "name", regexp: /^a/gi }).toJSON().filter.regexp).to.be.eql({ $regex: "^a", $flags: "i" });
+
+        const date = (<any>parsed.query).children[0].value;
+
+        expect(date).to.be.instanceOf(Date);
+        expect(date.getTime()).to.be.equal(new Date("2020-01-02T03:04:05.000Z").getTime());
+        expect(typeof (<any>parsed.query).children[1].values[0]).to.be.equal("bigint");
+
+        expect(DataFilter.fromJSON(JSON.stringify(DataFilter.any())).query).to.be.null;
+    });
+
+    it("Object values are tagged", () => {
+        const json = DataFilter.equals("settings", { theme: "dark", since: new Date(0) }).toJSON();
+
+        expect(json.filter.value).to.be.eql({ $object: { theme: "dark", since: { $date: "1970-01-01T00:00:00.000Z" } } });
+
+        const value = (<any>DataFilter.fromJSON(json).query).value;
+
+        expect(value.theme).to.be.equal("dark");
+        expect(value.since).to.be.instanceOf(Date);
+    });
+
+    it("Strict validation", () => {
+        expectInvalid("{not json", "$");
+        expectInvalid({ version: 2, filter: null }, "version");
+        expectInvalid({ version: 1, filter: null, extra: true }, "$");
+        expectInvalid({ version: 1, filter: { operation: "where", key: "a", value: 1 } }, "filter.operation");
+        expectInvalid({ version: 1, filter: { operation: "eq", key: "a" } }, "filter.value");
+        expectInvalid({ version: 1, filter: { operation: "eq", key: "a", value: 1, $where: "x" } }, "filter");
+        expectInvalid({ version: 1, filter: { operation: "and", children: [{ operation: "eq", key: "", value: 1 }] } }, "filter.children[0].key");
+        expectInvalid({ version: 1, filter: { operation: "eq", key: "a", value: { $date: "yesterday" } } }, "filter.value.$date");
+        expectInvalid({ version: 1, filter: { operation: "eq", key: "a", value: { theme: "dark" } } }, "filter.value");
+        expectInvalid({ version: 1, filter: { operation: "size", key: "a", size: -1 } }, "filter.size");
+        expectInvalid({ version: 1, filter: { operation: "regex", key: "a", regexp: { $regex: "(", $flags: "" } } }, "filter.regexp.$regex");
+        expectInvalid({ version: 1, filter: { operation: "regex", key: "a", regexp: { $regex: "a", $flags: "gi" } } }, "filter.regexp.$flags");
+    });
+
+    it("Allowed keys, allowed operations and max depth", () => {
+        const json = DataFilter.and<any>(DataFilter.equals("a", 1), DataFilter.not(DataFilter.contains("b", "x"))).toJSON();
+
+        expect(DataFilter.fromJSON(json, { allowedKeys: ["a", "b"] }).query).to.be.eql(DataFilter.fromJSON(json).query);
+
+        expectInvalid(json, "filter.children[1].child.key", { allowedKeys: ["a"] });
+        expectInvalid(json, "filter.children[1].child.operation", { allowedOperations: ["and", "not", "eq"] });
+        expectInvalid(json, "filter.children[1].child", { maxDepth: 2 });
+        expectInvalid({ version: 1, filter: { operation: "eq", key: "a", value: [[[1]]] } }, "filter.value[0][0]", { maxDepth: 3 });
+    });
+});
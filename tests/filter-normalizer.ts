@@ -0,0 +1,164 @@
+// Test (Filter normalization)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataAccessObject, DataFilter, DataFinder, DataSource, GenericFilter, isContradiction, MemoryDriver, normalizeFilter, TypedRow } from '../src/index';
+
+interface Item {
+    id: number;
+    color: string;
+    size: number;
+}
+
+const driver = new MemoryDriver({
+    tables: {
+        item: { primaryKey: "id" },
+    },
+});
+
+// Records the filters received by the driver
+const received: GenericFilter[] = [];
+const recordingDriver: MemoryDriver = Object.create(driver);
+recordingDriver.find = (table, filter, ...args) => {
+    received.push(filter);
+    return driver.find(table, filter, ...args);
+};
+recordingDriver.count = (table, filter, queryExtraOptions) => {
+    received.push(filter);
+    return driver.count(table, filter, queryExtraOptions);
+};
+recordingDriver.updateMany = (table, filter, updated) => {
+    received.push(filter);
+    return driver.updateMany(table, filter, updated);
+};
+
+DataSource.set("filter-normalizer", new DataSource("filter-normalizer", recordingDriver));
+
+const finder = new DataFinder<Item, number>("filter-normalizer", "item", "id", (data: TypedRow<Item>) => {
+    return <Item>data;
+});
+
+describe("Filter normalization", () => {
+
+    before(async () => {
+        await driver.batchInsert("item", [
+            { id: 1, color: "red", size: 1 },
+            { id: 2, color: "blue", size: 2 },
+            { id: 3, color: "green", size: 3 },
+        ]);
+    });
+
+    it("Flattens and drops null children", () => {
+        const filter = DataFilter.and<Item>(
+            DataFilter.and(DataFilter.any(), DataFilter.greaterThan("size", 1)),
+            DataFilter.and(DataFilter.lessThan("size", 5), DataFilter.and(DataFilter.any())),
+        );
+
+        expect(normalizeFilter(filter.query)).to.be.eql({
+            operation: "and",
+            children: [
+                { operation: "gt", key: "size", value: 1 },
+                { operation: "lt", key: "size", value: 5 },
+            ],
+        });
+
+        expect(normalizeFilter(DataFilter.and(DataFilter.any(), DataFilter.any()).query)).to.be.null;
+        expect(normalizeFilter(DataFilter.or<Item>(DataFilter.equals("id", 1), DataFilter.any()).query)).to.be.null;
+        expect(normalizeFilter(DataFilter.or<Item>(DataFilter.isNull("color"), DataFilter.isNotNull("color")).query)).to.be.null;
+    });
+
+    it("Merges equalities", () => {
+        const filter = DataFilter.or<Item>(
+            DataFilter.equals("color", "red"),
+            DataFilter.or(DataFilter.equals("color", "blue"), DataFilter.greaterThan("size", 2)),
+            DataFilter.into("color", ["red", "green"]),
+        );
+
+        expect(normalizeFilter(filter.query)).to.be.eql({
+            operation: "or",
+            children: [
+                { operation: "in", key: "color", values: ["red", "blue", "green"] },
+                { operation: "gt", key: "size", value: 2 },
+            ],
+        });
+
+        const filter2 = DataFilter.and<Item>(DataFilter.into("color", ["red", "blue"]), DataFilter.into("color", ["blue", "green"]));
+
+        expect(normalizeFilter(filter2.query)).to.be.eql({ operation: "eq", key: "color", value: "blue" });
+    });
+
+    it("Pushes negations inward", () => {
+        const filter = DataFilter.not<Item>(DataFilter.or(
+            DataFilter.equals("color", "red"),
+            DataFilter.not(DataFilter.isNull("size")),
+            DataFilter.greaterThan("size", 2),
+        ));
+
+        expect(normalizeFilter(filter.query)).to.be.eql({
+            operation: "and",
+            children: [
+                { operation: "ne", key: "color", value: "red" },
+                { operation: "exists", key: "size", exists: false },
+                { operation: "not", child: { operation: "gt", key: "size", value: 2 } },
+            ],
+        });
+
+        expect(normalizeFilter(DataFilter.not(DataFilter.not(DataFilter.equals("id", 1))).query)).to.be.eql({ operation: "eq", key: "id", value: 1 });
+    });
+
+    it("Does not merge equalities with null", () => {
+        const filter = DataFilter.or<Item>(DataFilter.equals("color", null), DataFilter.equals("color", "red"), DataFilter.equals("color", "blue"));
+
+        expect(normalizeFilter(filter.query)).to.be.eql({
+            operation: "or",
+            children: [
+                { operation: "eq", key: "color", value: null },
+                { operation: "in", key: "color", values: ["red", "blue"] },
+            ],
+        });
+    });
+
+    it("Detects contradictions", () => {
+        expect(isContradiction(normalizeFilter(DataFilter.and<Item>(DataFilter.equals("id", 1), DataFilter.equals("id", 2)).query))).to.be.true;
+        expect(isContradiction(normalizeFilter(DataFilter.and<Item>(DataFilter.isNull("color"), DataFilter.equals("color", "red")).query))).to.be.true;
+        expect(isContradiction(normalizeFilter(DataFilter.and<Item>(DataFilter.greaterThan("size", 1), DataFilter.into("id", [])).query))).to.be.true;
+        expect(isContradiction(normalizeFilter(DataFilter.not(DataFilter.any()).query))).to.be.true;
+        expect(normalizeFilter(DataFilter.or<Item>(DataFilter.into("id", []), DataFilter.equals("id", 3)).query)).to.be.eql({ operation: "eq", key: "id", value: 3 });
+        expect(isContradiction(normalizeFilter(DataFilter.and<Item>(DataFilter.equals("id", 1), DataFilter.equals("id", 1)).query))).to.be.false;
+
+        // Each contradiction is a new object
+        const contradiction: any = normalizeFilter(DataFilter.not(DataFilter.any()).query);
+        contradiction.children.push({ operation: "eq", key: "id", value: 1 });
+        expect(isContradiction(normalizeFilter(DataFilter.not(DataFilter.any()).query))).to.be.true;
+    });
+
+    it("Drivers receive normalized filters", async () => {
+        received.length = 0;
+
+        const items = await finder.find(DataFilter.and<Item>(DataFilter.any(), DataFilter.or(DataFilter.equals("id", 1), DataFilter.equals("id", 3))));
+
+        expect(items.map(i => i.id).sort()).to.be.eql([1, 3]);
+        expect(received).to.be.eql([{ operation: "in", key: "id", values: [1, 3] }]);
+
+        // Contradictions do not reach the driver
+        expect(await finder.find(DataFilter.and<Item>(DataFilter.equals("id", 1), DataFilter.equals("id", 2)))).to.be.eql([]);
+        expect(await finder.count(DataFilter.and<Item>(DataFilter.equals("color", "red"), DataFilter.equals("color", "blue")))).to.be.equal(0);
+        expect(received.length).to.be.equal(1);
+    });
+
+    it("The upsert fallback receives normalized filters", async () => {
+        // Driver without native upserts
+        const fallbackDriver: MemoryDriver = Object.create(recordingDriver);
+        fallbackDriver.upsert = undefined;
+        DataSource.set("filter-normalizer-fallback", new DataSource("filter-normalizer-fallback", fallbackDriver));
+
+        received.length = 0;
+
+        expect(await DataAccessObject.upsert("filter-normalizer-fallback", "item", ["id"], { id: 2, color: "blue", size: 2 }, { size: 4 })).to.be.equal("updated");
+        expect(await DataAccessObject.upsert("filter-normalizer-fallback", "item", ["id"], { id: 2, color: "blue", size: 2 }, {})).to.be.equal("updated");
+
+        expect(received).to.be.eql([{ operation: "eq", key: "id", value: 2 }, { operation: "eq", key: "id", value: 2 }]);
+        expect((await finder.findByKey(2)).size).to.be.equal(4);
+    });
+});
@@ -0,0 +1,102 @@
+// Test (Filter operations)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataFinder, DataSource, MemoryDriver, TypedRow } from '../src/index';
+
+interface Book {
+    id: number;
+    title: string;
+    year: number;
+    tags: string[];
+}
+
+const driver = new MemoryDriver({
+    tables: {
+        book: { primaryKey: "id" },
+    },
+});
+
+DataSource.set("filter-operations", new DataSource("filter-operations", driver));
+
+// Same data, but the driver does not report any extended filtering operation
+const basicDriver: MemoryDriver = Object.create(driver);
+basicDriver.getCapabilities = () => {
+    return {};
+};
+
+DataSource.set("filter-operations-basic", new DataSource("filter-operations-basic", basicDriver));
+
+const finder = new DataFinder<Book, number>("filter-operations", "book", "id", (data: TypedRow<Book>) => {
+    return <Book>data;
+});
+
+const basicFinder = new DataFinder<Book, number>("filter-operations-basic", "book", "id", (data: TypedRow<Book>) => {
+    return <Book>data;
+});
+
+async function findIds(filter: DataFilter<Book>): Promise<number[]> {
+    return (await finder.find(filter)).map(b => b.id).sort();
+}
+
+describe("Filter operations", () => {
+
+    before(async () => {
+        await driver.batchInsert("book", [
+            { id: 1, title: "The Hobbit", year: 1937, tags: ["fantasy", "classic"] },
+            { id: 2, title: "Dune", year: 1965, tags: ["sci-fi", "classic"] },
+            { id: 3, title: "100% Coverage", year: 2020, tags: [] },
+            { id: 4, title: "the_hobbit", year: null, tags: null },
+        ]);
+    });
+
+    it("Between and not into", async () => {
+        expect(await findIds(DataFilter.between("year", 1937, 1965))).to.be.eql([1, 2]);
+        expect(await findIds(DataFilter.notInto("year", [1937, 2020]))).to.be.eql([2, 4]);
+        expect(await findIds(DataFilter.not(DataFilter.between("year", 1900, 2000)))).to.be.eql([3, 4]);
+    });
+
+    it("Array contains and size", async () => {
+        expect(await findIds(DataFilter.arrayContainsAny("tags", ["fantasy", "sci-fi"]))).to.be.eql([1, 2]);
+        expect(await findIds(DataFilter.arrayContainsAll("tags", ["sci-fi", "classic"]))).to.be.eql([2]);
+        expect(await findIds(DataFilter.arraySize("tags", 0))).to.be.eql([3]);
+        expect(await findIds(DataFilter.arraySize("tags", 2))).to.be.eql([1, 2]);
+    });
+
+    it("Case insensitive equals and like", async () => {
+        expect(await findIds(DataFilter.equalsIgnoreCase("title", "the hobbit"))).to.be.eql([1]);
+        expect(await findIds(DataFilter.like("title", "The%"))).to.be.eql([1]);
+        expect(await findIds(DataFilter.like("title", "the%", true))).to.be.eql([1, 4]);
+        expect(await findIds(DataFilter.like("title", "the\\_hobbit"))).to.be.eql([4]);
+        expect(await findIds(DataFilter.like("title", "the_hobbit", true))).to.be.eql([1, 4]);
+        expect(await findIds(DataFilter.like("title", "%\\%%"))).to.be.eql([3]);
+        expect(await findIds(DataFilter.like("title", "D_n"))).to.be.eql([]);
+    });
+
+    it("Unsupported operations are rejected", async () => {
+        expect((await basicFinder.find(DataFilter.into("year", [1937]))).length).to.be.equal(1);
+
+        let error: Error = null;
+
+        try {
+            await basicFinder.count(DataFilter.and(DataFilter.equals("id", 1), DataFilter.not(DataFilter.arraySize("tags", 2))));
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+        expect(error.message).to.contain("size");
+
+        error = null;
+
+        try {
+            await basicFinder.delete(DataFilter.like("title", "%"));
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+        expect(await finder.count(DataFilter.any())).to.be.equal(4);
+    });
+});
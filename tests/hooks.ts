@@ -0,0 +1,126 @@
+// Test (Lifecycle hooks)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataModelHook, DataSource, MemoryDriver } from '../src/index';
+import { Account } from './models/account';
+
+const driver = new MemoryDriver({
+    tables: {
+        account: { primaryKey: "id", autoIncrement: true },
+    },
+});
+
+DataSource.set("hooks", new DataSource("hooks", driver));
+
+describe("Lifecycle hooks", () => {
+
+    beforeEach(() => {
+        Account.events = [];
+    });
+
+    it("Insert hooks", async () => {
+        const account = new Account({ name: "Alice", email: "Alice@Example.com", locked: false });
+        await account.insert();
+
+        expect(Account.events).to.be.eql(["beforeInsert", "afterInsert:1"]);
+        expect((await Account.finder.findByKey(1)).email).to.be.equal("alice@example.com");
+    });
+
+    it("Save hooks receive the diff", async () => {
+        const account = await Account.finder.findByKey(1);
+
+        expect(await account.save()).to.be.false;
+        expect(Account.events).to.be.eql([]);
+
+        account.email = "ALICE@example.org";
+        account.name = "Alice B.";
+
+        expect(await account.save()).to.be.true;
+        expect(Account.events).to.be.eql(["beforeSave:name,email", "afterSave:name,email"]);
+
+        // Changes made by beforeSave are saved too
+        expect((await Account.finder.findByKey(1)).email).to.be.equal("alice@example.org");
+    });
+
+    it("Rejected hooks abort the operation", async () => {
+        const account = new Account({ name: "Bob", email: "bob@example.com", locked: true });
+        await account.insert();
+
+        Account.events = [];
+
+        let error: Error = null;
+
+        try {
+            await account.delete();
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+        expect(error.message).to.be.equal("Cannot delete a locked account");
+        expect(Account.events).to.be.eql(["beforeDelete"]);
+        expect(await Account.finder.count(DataFilter.any())).to.be.equal(2);
+
+        account.locked = false;
+        await account.save();
+
+        Account.events = [];
+
+        expect(await account.delete()).to.be.true;
+        expect(Account.events).to.be.eql(["beforeDelete", "afterDelete"]);
+    });
+
+    it("Global hooks per table", async () => {
+        const dataSource = DataSource.get("hooks");
+        const events: string[] = [];
+
+        const audit: DataModelHook<Account> = (account, changes) => {
+            events.push(account.name + ":" + Object.keys(changes).join(","));
+        };
+
+        const reject: DataModelHook<Account> = async account => {
+            if (!account.name) {
+                throw new Error("Name is required");
+            }
+        };
+
+        dataSource.addHook("account", "afterSave", audit);
+        dataSource.addHook("account", "beforeInsert", reject);
+        dataSource.addHook("other", "afterSave", audit);
+
+        const account = await Account.finder.findByKey(1);
+        account.locked = true;
+        await account.save();
+
+        expect(events).to.be.eql(["Alice B.:locked"]);
+
+        let error: Error = null;
+
+        try {
+            await new Account({ name: "", email: "", locked: false }).insert();
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+        expect(await Account.finder.count(DataFilter.any())).to.be.equal(1);
+
+        // Hooks also run inside transactions
+        await dataSource.transaction(async tx => {
+            account.locked = false;
+            await account.save(null, tx);
+        });
+
+        expect(events).to.be.eql(["Alice B.:locked", "Alice B.:locked"]);
+
+        dataSource.removeHook("account", "afterSave", audit);
+        dataSource.removeHook("account", "beforeInsert", reject);
+
+        account.name = "Alice";
+        await account.save();
+
+        expect(events.length).to.be.equal(2);
+    });
+});
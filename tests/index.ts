@@ -3,7 +3,9 @@
 "use strict";
 
 import { expect } from 'chai';
-import { DataFilter, DataSource, DataUpdate, OrderBy, SelectOptions } from '../src/index';
+import { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Aggregation, DataFilter, DataSource, DataUpdate, MemoryDriver, OrderBy, SelectOptions, getModelSchema } from '../src/index';
 import { Person } from './models/person';
 import { Dummy } from './models/dummy';
 import { TestDriver } from './driver/test-driver';
@@ -24,6 +26,33 @@ interface PersonData {
 
 describe("tsbean-orm testing", () => {
 
+    it("Model schema (decorators)", async () => {
+        const schema = getModelSchema(Person);
+
+        expect(schema).not.to.be.null;
+        expect(schema.source).to.be.equal(DataSource.DEFAULT);
+        expect(schema.table).to.be.equal("person");
+        expect(schema.primaryKey).to.be.equal("id");
+        expect(schema.fields).to.be.eql([
+            { name: "id", type: "int" },
+            { name: "name", type: "string" },
+            { name: "surname", type: "string" },
+            { name: "age", type: "int" },
+            { name: "hasDriverLicense", type: "boolean" },
+            { name: "preferences", type: "array" },
+            { name: "birthDate", type: "date" },
+        ]);
+
+        expect(getModelSchema(Dummy)).to.be.null;
+
+        const person = new Person(<any>{ id: "12", age: "30.5", birthDate: "2000-01-01T00:00:00.000Z" });
+
+        expect(person.id).to.be.equal(12);
+        expect(person.age).to.be.equal(30);
+        expect(person.name).to.be.null;
+        expect(person.birthDate).to.be.eql(new Date("2000-01-01T00:00:00.000Z"));
+    });
+
     it("Insert (Person) and FindByKey", async () => {
         const person = new Person({
             id: 1,
@@ -247,6 +276,76 @@ describe("tsbean-orm testing", () => {
         expect(results.map(a => a.toObject())).to.be.eql(rows.slice());
     });
 
+    it("Find (Async iterator)", async () => {
+        const results: Person[] = [];
+
+        for await (const person of Person.finder.iterate(DataFilter.any(), OrderBy.asc("id"))) {
+            results.push(person);
+        }
+
+        expect(results.map(a => a.toObject())).to.be.eql(rows.slice());
+    });
+
+    it("Find (Async iterator, stop early)", async () => {
+        const originalFindStream = dataSource.driver.findStream;
+
+        let delivered = 0;
+        let streamError: Error = null;
+
+        dataSource.driver.findStream = async function (...args: any[]) {
+            const each = args[args.length - 1];
+            args[args.length - 1] = async (row: any) => {
+                delivered++;
+                await each(row);
+            };
+            try {
+                await originalFindStream.apply(this, args);
+            } catch (ex) {
+                streamError = ex;
+                throw ex;
+            }
+        };
+
+        const results: Person[] = [];
+
+        // Same as "break" inside "for await" (calls return)
+        try {
+            const iterator = Person.finder.iterate(DataFilter.any(), OrderBy.asc("id"));
+            for (let i = 0; i < 3; i++) {
+                results.push((await iterator.next()).value);
+            }
+            await iterator.return();
+            expect((await iterator.next()).done).to.be.true;
+        } finally {
+            dataSource.driver.findStream = originalFindStream;
+        }
+
+        expect(results.map(a => a.id)).to.be.eql([1, 2, 3]);
+        expect(delivered).to.be.equal(3);
+        expect(streamError).not.to.be.null;
+    });
+
+    it("Find (Async iterator, relations)", async () => {
+        expect(() => Person.finder.iterate(DataFilter.any(), OrderBy.asc("id"), SelectOptions.configure<Person>().include(["name"]))).to.throw(/not supported for streams/);
+    });
+
+    it("Find (Readable stream)", async () => {
+        const results: Person[] = [];
+
+        await pipeline(
+            Person.finder.toReadable(DataFilter.lessOrEquals("age", 50), OrderBy.asc("id")),
+            new Writable({
+                objectMode: true,
+                write(person: Person, encoding, callback) {
+                    results.push(person);
+                    callback();
+                },
+            }),
+        );
+
+        expect(results.map(a => a.toObject())).to.be.eql(rows.filter(a => a.age <= 50));
+    });
+
     it("Find (EQ)", async () => {
         const results = await Person.finder.find(DataFilter.equals("name", "Aidan"), OrderBy.asc("id"));
 
@@ -415,4 +514,159 @@ describe("tsbean-orm testing", () => {
 
         expect(value).to.be.equals(expectedValue);
     });
+    it("AGGREGATION (MIN, MAX, AVG, COUNT DISTINCT)", async () => {
+        expect(await Person.finder.min("age", DataFilter.any())).to.be.equal(Math.min(...rows.map(a => a.age)));
+        expect(await Person.finder.max("birthDate", DataFilter.any())).to.be.eql(new Date("2000-03-01"));
+        const evans = rows.filter(a => a.surname === "Evans");
+        expect(await Person.finder.avg("age", DataFilter.equals("surname", "Evans"))).to.be.equal(evans.reduce((total, a) => total + a.age, 0) / evans.length);
+        expect(await Person.finder.avg("age", DataFilter.equals("surname", "Nobody"))).to.be.null;
+        expect(await Person.finder.countDistinct("surname", DataFilter.any())).to.be.equal(new Set(rows.map(a => a.surname)).size);
+    });
+
+    it("AGGREGATION (GROUP BY)", async () => {
+        const results = await Person.finder.aggregate([Aggregation.count(), Aggregation.sum("age", "totalAge"), Aggregation.max("name")], DataFilter.lessThan("age", 70), ["hasDriverLicense"]);
+
+        const expected = [true, false].map(hasDriverLicense => {
+            const group = rows.filter(a => a.age < 70 && a.hasDriverLicense === hasDriverLicense);
+            return {
+                hasDriverLicense: hasDriverLicense,
+                count: group.length,
+                totalAge: group.reduce((total, a) => total + a.age, 0),
+                max_name: group.map(a => a.name).sort().pop(),
+            };
+        });
+
+        expect(results.map(r => Object.assign({}, r))).to.be.eql(expected);
+    });
+
+    it("Transaction (Commit)", async () => {
+        await dataSource.transaction(async tx => {
+            const dummy = new Dummy({ id: "dummy-tx-1", value1: 1, value2: 1, value3: "a", data: {} });
+            await dummy.insert(tx);
+
+            expect(await Dummy.finder.withTransaction(tx).findByKey("dummy-tx-1")).not.to.be.null;
+            expect(await Dummy.finder.findByKey("dummy-tx-1")).to.be.null;
+
+            dummy.value1 = 2;
+            await dummy.save(null, tx);
+        });
+
+        const dummyFound = await Dummy.finder.findByKey("dummy-tx-1");
+
+        expect(dummyFound).not.to.be.null;
+        expect(dummyFound.value1).to.be.equal(2);
+    });
+
+    it("Transaction (Rollback on error)", async () => {
+        let error: Error = null;
+
+        try {
+            await dataSource.transaction(async tx => {
+                const dummy = await Dummy.finder.withTransaction(tx).findByKey("dummy-tx-1");
+                await dummy.delete(tx);
+                await Dummy.finder.withTransaction(tx).update({ value1: 10 }, DataFilter.any());
+                throw new Error("Test error");
+            });
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+        expect(error.message).to.be.equal("Test error");
+
+        const dummyFound = await Dummy.finder.findByKey("dummy-tx-1");
+
+        expect(dummyFound).not.to.be.null;
+        expect(dummyFound.value1).to.be.equal(2);
+    });
+
+    it("Transaction (Explicit rollback)", async () => {
+        const tx = await dataSource.beginTransaction();
+
+        expect(await Dummy.finder.withTransaction(tx).delete(DataFilter.any())).to.be.equal(1);
+        expect(await Dummy.finder.withTransaction(tx).count(DataFilter.any())).to.be.equal(0);
+
+        await tx.rollback();
+
+        expect(await Dummy.finder.count(DataFilter.any())).to.be.equal(1);
+
+        let error: Error = null;
+
+        try {
+            await Dummy.finder.withTransaction(tx).count(DataFilter.any());
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+
+        await Dummy.finder.delete(DataFilter.any());
+    });
+
+    it("Transaction (Writes outside the transaction)", async () => {
+        const tx = await dataSource.beginTransaction();
+
+        await new Dummy({ id: "dummy-tx-2", value1: 1, value2: 1, value3: "a", data: {} }).insert(tx);
+        await new Dummy({ id: "dummy-tx-3", value1: 1, value2: 1, value3: "a", data: {} }).insert();
+
+        await tx.commit();
+
+        expect(await Dummy.finder.count(DataFilter.any())).to.be.equal(2);
+
+        await Dummy.finder.delete(DataFilter.any());
+    });
+
+    it("Transaction (Errors)", async () => {
+        let error: Error = null;
+
+        try {
+            await dataSource.transaction(async tx => {
+                tx.driver.rollback = async () => {
+                    throw new Error("Rollback error");
+                };
+                throw new Error("Test error");
+            });
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error.message).to.be.equal("Test error");
+
+        // Failed commits are rolled back
+        let rolledBack = false;
+        error = null;
+
+        try {
+            await dataSource.transaction(async tx => {
+                tx.driver.commit = async () => {
+                    throw new Error("Commit error");
+                };
+                const rollback = tx.driver.rollback.bind(tx.driver);
+                tx.driver.rollback = async () => {
+                    rolledBack = true;
+                    await rollback();
+                };
+            });
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error.message).to.be.equal("Commit error");
+        expect(rolledBack).to.be.true;
+
+        const other = new DataSource("tx-other", new MemoryDriver());
+        const tx = await other.beginTransaction();
+
+        error = null;
+
+        try {
+            await Dummy.finder.withTransaction(tx).count(DataFilter.any());
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error.message).to.be.equal("Cannot use a transaction of the data source tx-other with the data source default.");
+
+        await tx.rollback();
+    });
 });
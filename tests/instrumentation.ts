@@ -0,0 +1,214 @@
+// Test (Query instrumentation)
+
+"use strict";
+
+import { expect } from 'chai';
+import { createSlowQueryLogger, DataAccessObject, DataFilter, DataFinder, DataSource, MemoryDriver, OrderBy, QueryEndEvent, QueryErrorEvent, QueryEvent, SelectOptions, TypedRow } from '../src/index';
+
+interface Task {
+    id: number;
+    title: string;
+    done: boolean;
+}
+
+const driver = new MemoryDriver({
+    tables: {
+        task: { primaryKey: "id" },
+    },
+});
+
+const dataSource = new DataSource("instrumentation", driver);
+
+DataSource.set("instrumentation", dataSource);
+
+const finder = new DataFinder<Task, number>("instrumentation", "task", "id", (data: TypedRow<Task>) => {
+    return <Task>data;
+});
+
+describe("Query instrumentation", () => {
+
+    const started: QueryEvent[] = [];
+    const ended: QueryEndEvent[] = [];
+    const failed: QueryErrorEvent[] = [];
+
+    const onStart = (e: QueryEvent) => started.push(e);
+    const onEnd = (e: QueryEndEvent) => ended.push(e);
+    const onError = (e: QueryErrorEvent) => failed.push(e);
+
+    before(async () => {
+        await driver.batchInsert("task", [
+            { id: 1, title: "Write", done: false },
+            { id: 2, title: "Review", done: true },
+            { id: 3, title: "Release", done: false },
+        ]);
+
+        dataSource.addQueryListener("start", onStart);
+        dataSource.addQueryListener("end", onEnd);
+        dataSource.addQueryListener("error", onError);
+    });
+
+    after(() => {
+        dataSource.removeQueryListener("start", onStart);
+        dataSource.removeQueryListener("end", onEnd);
+        dataSource.removeQueryListener("error", onError);
+    });
+
+    beforeEach(() => {
+        started.length = 0;
+        ended.length = 0;
+        failed.length = 0;
+    });
+
+    it("Emits start and end events for queries", async () => {
+        await finder.find(DataFilter.equals("done", false), OrderBy.desc("title"), SelectOptions.configure().setMaxRows(5));
+
+        expect(started.length).to.be.equal(1);
+        expect(ended.length).to.be.equal(1);
+
+        expect(started[0]).to.be.eql({
+            id: started[0].id,
+            dataSource: "instrumentation",
+            table: "task",
+            operation: "find",
+            transaction: false,
+            filter: { operation: "eq", key: "done", value: false },
+            sort: [{ by: "title", dir: "desc" }],
+            skip: -1,
+            limit: 5,
+        });
+
+        expect(ended[0].id).to.be.equal(started[0].id);
+        expect(ended[0].rowCount).to.be.equal(2);
+        expect(ended[0].duration).to.be.a("number");
+        expect(ended[0].duration >= 0).to.be.true;
+
+        expect(await finder.count(DataFilter.any())).to.be.equal(3);
+        expect(ended[1].operation).to.be.equal("count");
+        expect(ended[1].filter).to.be.null;
+        expect(ended[1].rowCount).to.be.equal(3);
+
+        const rows: number[] = [];
+        await finder.findStream(DataFilter.any(), OrderBy.asc("id"), SelectOptions.configure(), async task => {
+            rows.push(task.id);
+        });
+        expect(rows).to.be.eql([1, 2, 3]);
+        expect(ended[2].operation).to.be.equal("findStream");
+        expect(ended[2].rowCount).to.be.equal(3);
+    });
+
+    it("Stopping a stream early is not an error", async () => {
+        // Same as "break" inside "for await" (calls return)
+        const iterator = finder.iterate(DataFilter.any(), OrderBy.asc("id"));
+        expect((await iterator.next()).value.id).to.be.equal(1);
+        await iterator.return();
+
+        expect(failed.length).to.be.equal(0);
+        expect(ended.length).to.be.equal(1);
+        expect(ended[0].operation).to.be.equal("findStream");
+        expect(ended[0].rowCount).to.be.equal(1);
+        expect(ended[0].cancelled).to.be.true;
+    });
+
+    it("Reports affected rows of writes, including transactions", async () => {
+        expect(await finder.update({ done: true }, DataFilter.equals("done", false))).to.be.equal(2);
+        expect(ended[0].operation).to.be.equal("updateMany");
+        expect(ended[0].affectedRows).to.be.equal(2);
+
+        await dataSource.transaction(async tx => {
+            await DataAccessObject.deleteMany("instrumentation", "task", DataFilter.equals("id", 3).query, tx);
+        });
+
+        expect(ended[1].operation).to.be.equal("deleteMany");
+        expect(ended[1].transaction).to.be.true;
+        expect(ended[1].affectedRows).to.be.equal(1);
+        expect(await finder.count(DataFilter.any())).to.be.equal(2);
+    });
+
+    it("Reports affected rows of updates and increments", async () => {
+        await DataAccessObject.getDriver("instrumentation").update("task", "id", 1, { title: "Written" });
+        expect(ended[0].operation).to.be.equal("update");
+        expect(ended[0].affectedRows).to.be.equal(1);
+
+        await DataAccessObject.increment("instrumentation", "task", "id", 2, "views", 1);
+        expect(ended[1].operation).to.be.equal("increment");
+        expect(ended[1].affectedRows).to.be.equal(1);
+
+        await DataAccessObject.increment("instrumentation", "task", "id", 99, "views", 1);
+        expect(ended[2].affectedRows).to.be.equal(0);
+    });
+
+    it("Listeners cannot change the operation", async () => {
+        const changeQuery = (e: QueryEvent) => {
+            e.filter.operation = "ne";
+            e.sort[0].dir = "desc";
+        };
+
+        dataSource.addQueryListener("start", changeQuery);
+
+        let tasks: Task[];
+
+        try {
+            tasks = await finder.find(DataFilter.equals("done", true), OrderBy.asc("id"));
+        } finally {
+            dataSource.removeQueryListener("start", changeQuery);
+        }
+
+        expect(tasks.map(t => t.id)).to.be.eql([1, 2]);
+        expect(ended[0].filter).to.be.eql({ operation: "eq", key: "done", value: true });
+        expect(ended[0].sort).to.be.eql([{ by: "id", dir: "asc" }]);
+    });
+
+    it("Emits error events", async () => {
+        const failing: MemoryDriver = Object.create(driver);
+        failing.count = async () => {
+            throw new Error("Connection lost");
+        };
+        dataSource.driver = failing;
+
+        let error: Error = null;
+
+        try {
+            await finder.count(DataFilter.equals("done", true));
+        } catch (ex) {
+            error = ex;
+        } finally {
+            dataSource.driver = driver;
+        }
+
+        expect(error.message).to.be.equal("Connection lost");
+        expect(ended.length).to.be.equal(0);
+        expect(failed.length).to.be.equal(1);
+        expect(failed[0].operation).to.be.equal("count");
+        expect(failed[0].error).to.be.equal(error);
+        expect(failed[0].id).to.be.equal(started[0].id);
+    });
+
+    it("Slow query logger", async () => {
+        const messages: string[] = [];
+        const logger = createSlowQueryLogger({ threshold: 0, log: message => messages.push(message) });
+        const slowOnly = createSlowQueryLogger({ threshold: 60000, log: message => messages.push(message) });
+
+        dataSource.addQueryListener("end", logger);
+        dataSource.addQueryListener("end", slowOnly);
+
+        try {
+            await finder.find(DataFilter.equals("done", true), OrderBy.asc("id"), SelectOptions.configure().setMaxRows(10));
+        } finally {
+            dataSource.removeQueryListener("end", logger);
+            dataSource.removeQueryListener("end", slowOnly);
+        }
+
+        expect(messages.length).to.be.equal(1);
+        expect(messages[0]).to.match(/^Slow query \(\d+ ms\): find on instrumentation\.task \| filter: \{"operation":"eq","key":"done","value":true\} \| sort: id asc \| limit: 10 \| rows: 2$/);
+
+        dataSource.addQueryListener("end", logger);
+
+        try {
+            await finder.count(DataFilter.startsWith("title", "w", true));
+        } finally {
+            dataSource.removeQueryListener("end", logger);
+        }
+
+        expect(messages[1]).to.match(/^Slow query \(\d+ ms\): count on instrumentation\.task \| filter: \{"operation":"regex","key":"title","regexp":\{"source":"\^w","flags":"i"\}\} \| rows: 1$/);
+    });
+});
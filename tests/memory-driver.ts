@@ -0,0 +1,230 @@
+// Test (In-memory driver)
+
+"use strict";
+
+import { expect } from 'chai';
+import { Aggregation, DataFilter, DataSource, DataUpdate, MemoryDriver, OrderBy, SelectOptions } from '../src/index';
+import { Product } from './models/product';
+
+const driver = new MemoryDriver({
+    tables: {
+        product: {
+            primaryKey: "id",
+            autoIncrement: true,
+            indexes: {
+                sku_index: { field: "sku", unique: true },
+                category_index: { field: "category" },
+            },
+        },
+    },
+});
+
+DataSource.set("memory", new DataSource("memory", driver));
+
+describe("In-memory driver", () => {
+
+    it("Insert with auto-increment key", async () => {
+        const p1 = new Product({ sku: "A-1", name: "Apple", category: "fruit", price: 1.5, stock: 10, tags: ["red"], createdAt: new Date("2020-01-01") });
+        await p1.insert();
+
+        expect(p1.id).to.be.equal(1);
+
+        const p2 = new Product({ sku: "B-1", name: "Banana", category: "fruit", price: 0.5, stock: 20, tags: [], createdAt: new Date("2020-01-02") });
+        await p2.insert();
+
+        expect(p2.id).to.be.equal(2);
+
+        const p3 = new Product({ id: 10, sku: "C-1", name: "Carrot", category: "vegetable", price: 0.5, stock: 0, tags: [], createdAt: new Date("2020-01-03") });
+        await p3.insert();
+
+        const p4 = new Product({ sku: "D-1", name: "Date", category: "fruit", price: 3, stock: null, tags: [], createdAt: new Date("2020-01-04") });
+        await p4.insert();
+
+        expect(p4.id).to.be.equal(11);
+
+        const found = await Product.finder.findByKey(2);
+
+        expect(found).not.to.be.null;
+        expect(found.toObject()).to.be.eql(p2.toObject());
+    });
+
+    it("Unique indexes", async () => {
+        let error: Error = null;
+
+        try {
+            await new Product({ id: 1, sku: "Z-1", name: "Duplicated", category: "none", price: 0, stock: 0, tags: [], createdAt: null }).insert();
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+
+        error = null;
+
+        try {
+            await Product.finder.update({ sku: "X-1" }, DataFilter.equals("category", "fruit"));
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+
+        // Failed updates must not be partially applied
+        expect((await Product.finder.findByKey(1)).sku).to.be.equal("A-1");
+        expect(await Product.finder.count(DataFilter.any())).to.be.equal(4);
+    });
+
+    it("Copy on read and write", async () => {
+        const product = await Product.finder.findByKey(1);
+
+        product.tags.push("modified");
+
+        const rows = await driver.find("product", DataFilter.equals("id", 1).query, null, null, -1, -1, null, {});
+        rows[0].tags.push("modified");
+
+        const found = await Product.finder.findByKey(1);
+
+        expect(found.tags).to.be.eql(["red"]);
+    });
+
+    it("Sorting with ties", async () => {
+        const results = await Product.finder.find(DataFilter.any(), OrderBy.desc("price"));
+
+        expect(results.map(p => p.id)).to.be.eql([11, 1, 10, 2]);
+    });
+
+    it("Filters with dates and indexes", async () => {
+        const byDate = await Product.finder.find(DataFilter.equals("createdAt", new Date("2020-01-02")));
+
+        expect(byDate.map(p => p.id)).to.be.eql([2]);
+
+        const afterDate = await Product.finder.find(DataFilter.greaterThan("createdAt", new Date("2020-01-02")), OrderBy.asc("id"));
+
+        expect(afterDate.map(p => p.id)).to.be.eql([10, 11]);
+
+        const byIndex = await Product.finder.find(DataFilter.into("category", ["fruit"]), OrderBy.asc("id"), SelectOptions.configure().useIndex("category_index"));
+
+        expect(byIndex.map(p => p.id)).to.be.eql([1, 2, 11]);
+
+        let error: Error = null;
+
+        try {
+            await Product.finder.find(DataFilter.any(), OrderBy.asc("id"), SelectOptions.configure().useIndex("not_found"));
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+    });
+
+    it("Update many (set and increment)", async () => {
+        const affected = await Product.finder.update({ price: DataUpdate.set(2), stock: DataUpdate.increment(5) }, DataFilter.equals("category", "fruit"));
+
+        expect(affected).to.be.equal(3);
+
+        const results = await Product.finder.find(DataFilter.equals("category", "fruit"), OrderBy.asc("id"));
+
+        expect(results.map(p => p.price)).to.be.eql([2, 2, 2]);
+        expect(results.map(p => p.stock)).to.be.eql([15, 25, 5]);
+
+        // The category index must be updated
+        await Product.finder.update({ category: "sweet" }, DataFilter.equals("id", 11));
+
+        expect(await Product.finder.count(DataFilter.equals("category", "fruit"))).to.be.equal(2);
+        expect(await Product.finder.count(DataFilter.equals("category", "sweet"))).to.be.equal(1);
+    });
+
+    it("Sum", async () => {
+        await Product.finder.update({ stock: null }, DataFilter.equals("id", 10));
+
+        expect(await Product.finder.sum("stock", DataFilter.any())).to.be.equal(45);
+        expect(await Product.finder.sum("price", DataFilter.equals("category", "fruit"))).to.be.equal(4);
+    });
+
+    it("Aggregations", async () => {
+        const results = await Product.finder.aggregate([Aggregation.count(), Aggregation.avg("price"), Aggregation.min("createdAt")], DataFilter.any(), ["category"]);
+
+        expect(results.map(r => Object.assign({}, r))).to.be.eql([
+            { category: "fruit", count: 2, avg_price: 2, min_createdAt: new Date("2020-01-01") },
+            { category: "vegetable", count: 1, avg_price: 0.5, min_createdAt: new Date("2020-01-03") },
+            { category: "sweet", count: 1, avg_price: 2, min_createdAt: new Date("2020-01-04") },
+        ]);
+
+        expect(await Product.finder.countDistinct("stock", DataFilter.any())).to.be.equal(3);
+        expect(await Product.finder.max("stock", DataFilter.equals("category", "none"))).to.be.null;
+    });
+
+    it("Transactions", async () => {
+        const dataSource = DataSource.get("memory");
+
+        await dataSource.transaction(async tx => {
+            const product = await Product.finder.withTransaction(tx).findByKey(1);
+            await product.increment("stock", -5, tx);
+            await new Product({ sku: "E-1", name: "Eggplant", category: "vegetable", price: 1, stock: 1, tags: [], createdAt: null }).insert(tx);
+        });
+
+        expect((await Product.finder.findByKey(1)).stock).to.be.equal(10);
+        expect(await Product.finder.count(DataFilter.equals("sku", "E-1"))).to.be.equal(1);
+
+        const tx = await dataSource.beginTransaction();
+        await Product.finder.withTransaction(tx).delete(DataFilter.any());
+        await tx.rollback();
+
+        expect(await Product.finder.count(DataFilter.any())).to.be.equal(5);
+    });
+
+    it("Transactions with interleaved writes", async () => {
+        const store = new MemoryDriver({
+            tables: {
+                item: { primaryKey: "id", indexes: { code_index: { field: "code", unique: true } } },
+            },
+        });
+
+        await store.batchInsert("item", [{ id: 1, code: "a", value: 1 }, { id: 2, code: "b", value: 2 }, { id: 3, code: "c", value: 3 }]);
+
+        const tx1 = await store.beginTransaction();
+        const tx2 = await store.beginTransaction();
+
+        await tx1.update("item", "id", 1, { value: 10 });
+        await tx1.delete("item", "id", 3);
+        await tx1.insert("item", { id: 4, code: "d", value: 4 }, "id");
+
+        // Writes made outside the transactions after they started
+        await store.update("item", "id", 2, { value: 20 });
+        await store.insert("item", { id: 5, code: "e", value: 5 }, "id");
+        await store.insert("other", { id: 1 }, "id");
+
+        await tx2.insert("item", { id: 6, code: "f", value: 6 }, "id");
+        await tx2.commit();
+
+        await tx1.commit();
+
+        expect((await store.find("item", null, "id", "asc", 0, -1, null, {})).map(r => [r.id, r.value])).to.be.eql([[1, 10], [2, 20], [4, 4], [5, 5], [6, 6]]);
+        expect(await store.count("other", null, {})).to.be.equal(1);
+
+        // A commit breaking a unique index leaves the data unchanged
+        const tx3 = await store.beginTransaction();
+        await tx3.update("item", "id", 1, { value: 100 });
+        await tx3.insert("item", { id: 7, code: "g", value: 7 }, "id");
+        await store.insert("item", { id: 8, code: "g", value: 8 }, "id");
+
+        let error: Error = null;
+        try {
+            await tx3.commit();
+        } catch (ex) {
+            error = ex;
+        }
+        expect(error).to.not.be.null;
+        expect((await store.findByKey("item", "id", 1)).value).to.be.equal(10);
+        expect(await store.findByKey("item", "id", 7)).to.be.null;
+    });
+
+    it("Delete", async () => {
+        const product = await Product.finder.findByKey(2);
+
+        expect(await product.delete()).to.be.true;
+        expect(await product.delete()).to.be.false;
+        expect(await Product.finder.delete(DataFilter.equals("category", "vegetable"))).to.be.equal(2);
+        expect(await Product.finder.count(DataFilter.any())).to.be.equal(2);
+    });
+});
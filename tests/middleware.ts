@@ -0,0 +1,152 @@
+// Test (Driver middleware)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataAccessObject, DataFilter, DataFinder, DataSource, DriverMiddleware, DriverMiddlewareContext, MemoryDriver, OrderBy, SelectOptions, TypedRow } from '../src/index';
+
+interface Note {
+    id: number;
+    tenant: string;
+    text: string;
+}
+
+const driver = new MemoryDriver({
+    tables: {
+        note: { primaryKey: "id" },
+    },
+});
+
+const dataSource = new DataSource("middleware", driver);
+
+DataSource.set("middleware", dataSource);
+
+const finder = new DataFinder<Note, number>("middleware", "note", "id", (data: TypedRow<Note>) => {
+    return <Note>data;
+});
+
+// Restricts the queries to a tenant, and sets it for the inserted rows
+function tenantMiddleware(tenant: string): DriverMiddleware {
+    return async (op, next) => {
+        switch (op.operation) {
+        case "find":
+        case "count":
+        case "updateMany":
+        case "deleteMany":
+            return next(Object.assign({}, op, { filter: DataFilter.and<any>(new DataFilter(op.filter), DataFilter.equals("tenant", tenant)).query }));
+        case "insert":
+            return next(Object.assign({}, op, { row: Object.assign({}, op.row, { tenant: tenant }) }));
+        default:
+            return next(op);
+        }
+    };
+}
+
+describe("Driver middleware", () => {
+
+    before(async () => {
+        await driver.batchInsert("note", [
+            { id: 1, tenant: "a", text: "First" },
+            { id: 2, tenant: "b", text: "Second" },
+            { id: 3, tenant: "a", text: "Third" },
+        ]);
+    });
+
+    it("Modifies the operations", async () => {
+        const middleware = tenantMiddleware("a");
+        dataSource.use(middleware);
+
+        try {
+            expect((await finder.find(DataFilter.any(), OrderBy.asc("id"), SelectOptions.configure())).map(n => n.id)).to.be.eql([1, 3]);
+            expect(await finder.count(DataFilter.equals("text", "Second"))).to.be.equal(0);
+
+            await DataAccessObject.insertInstance("middleware", "note", { id: 4, tenant: "b", text: "Fourth" });
+            expect((await driver.findByKey("note", "id", 4)).tenant).to.be.equal("a");
+        } finally {
+            dataSource.removeMiddleware(middleware);
+        }
+
+        expect(await finder.count(DataFilter.any())).to.be.equal(4);
+    });
+
+    it("Short-circuits and post-processes the results", async () => {
+        const reads: string[] = [];
+
+        const readOnly: DriverMiddleware = async (op, next) => {
+            if (op.operation !== "findByKey" && op.operation !== "find" && op.operation !== "count") {
+                throw new Error("Read only: " + op.operation);
+            }
+            reads.push(op.operation);
+            return next(op);
+        };
+
+        const upperCase: DriverMiddleware = async (op, next) => {
+            const result = await next(op);
+            if (op.operation === "findByKey" && result) {
+                return Object.assign({}, result, { text: ("" + result.text).toUpperCase() });
+            }
+            return result;
+        };
+
+        dataSource.use(readOnly);
+        dataSource.use(upperCase);
+
+        try {
+            expect((await finder.findByKey(1)).text).to.be.equal("FIRST");
+
+            let error: Error = null;
+
+            try {
+                await finder.delete(DataFilter.any());
+            } catch (ex) {
+                error = ex;
+            }
+
+            expect(error.message).to.be.equal("Read only: deleteMany");
+            expect(reads).to.be.eql(["findByKey"]);
+        } finally {
+            dataSource.removeMiddleware(readOnly);
+            dataSource.removeMiddleware(upperCase);
+        }
+
+        expect(dataSource.getMiddlewares()).to.be.eql([]);
+        expect(await finder.count(DataFilter.any())).to.be.equal(4);
+    });
+
+    it("Retries operations and runs inside transactions", async () => {
+        const contexts: DriverMiddlewareContext[] = [];
+        let failures = 1;
+
+        const flaky: DriverMiddleware = async (op, next, context) => {
+            contexts.push(context);
+            if (op.operation === "updateMany" && failures > 0) {
+                failures--;
+                throw new Error("Deadlock");
+            }
+            return next(op);
+        };
+
+        const retry: DriverMiddleware = async (op, next) => {
+            try {
+                return await next(op);
+            } catch (ex) {
+                return next(op);
+            }
+        };
+
+        dataSource.use(retry);
+        dataSource.use(flaky);
+
+        try {
+            await dataSource.transaction(async tx => {
+                expect(await DataAccessObject.updateMany("middleware", "note", DataFilter.equals("id", 2).query, { text: "Updated" }, tx)).to.be.equal(1);
+            });
+        } finally {
+            dataSource.removeMiddleware(retry);
+            dataSource.removeMiddleware(flaky);
+        }
+
+        expect(contexts).to.be.eql([{ dataSource: "middleware", transaction: true }, { dataSource: "middleware", transaction: true }]);
+        expect((await finder.findByKey(2)).text).to.be.equal("Updated");
+    });
+});
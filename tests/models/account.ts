@@ -0,0 +1,62 @@
+// Account - tsbean-orm class (decorators, lifecycle hooks)
+
+"use strict";
+
+import { DataModel, TypedRow, DataFinder, Table, Field, PrimaryKey, GenericRowUpdate } from "../../src/index";
+
+@Table("account", "hooks")
+export class Account extends DataModel {
+
+    public static finder = DataFinder.forModel<Account, number>(Account);
+
+    public static events: string[] = [];
+
+    @PrimaryKey()
+    @Field("int")
+    public id: number;
+
+    @Field("string")
+    public name: string;
+
+    @Field("string")
+    public email: string;
+
+    @Field("boolean")
+    public locked: boolean;
+
+    constructor(data: TypedRow<Account>) {
+        super();
+        this.init(data);
+    }
+
+    protected async beforeInsert(): Promise<void> {
+        Account.events.push("beforeInsert");
+        this.email = (this.email || "").toLowerCase();
+    }
+
+    protected async afterInsert(): Promise<void> {
+        Account.events.push("afterInsert:" + this.id);
+    }
+
+    protected async beforeSave(changes: GenericRowUpdate): Promise<void> {
+        Account.events.push("beforeSave:" + Object.keys(changes).join(","));
+        if ("email" in changes) {
+            this.email = (this.email || "").toLowerCase();
+        }
+    }
+
+    protected async afterSave(changes: GenericRowUpdate): Promise<void> {
+        Account.events.push("afterSave:" + Object.keys(changes).join(","));
+    }
+
+    protected async beforeDelete(): Promise<void> {
+        Account.events.push("beforeDelete");
+        if (this.locked) {
+            throw new Error("Cannot delete a locked account");
+        }
+    }
+
+    protected async afterDelete(): Promise<void> {
+        Account.events.push("afterDelete");
+    }
+}
@@ -0,0 +1,29 @@
+// Article - tsbean-orm class (decorators)
+
+"use strict";
+
+import { DataModel, TypedRow, DataFinder, Table, Field, PrimaryKey } from "../../src/index";
+
+@Table("article", "pagination")
+export class Article extends DataModel {
+
+    public static finder = DataFinder.forModel<Article, number>(Article);
+
+    @PrimaryKey()
+    @Field("int")
+    public id: number;
+
+    @Field("string")
+    public title: string;
+
+    @Field("int")
+    public score: number;
+
+    @Field("date")
+    public publishedAt: Date;
+
+    constructor(data: TypedRow<Article>) {
+        super();
+        this.init(data);
+    }
+}
@@ -0,0 +1,30 @@
+// Customer - tsbean-orm class (decorators)
+
+"use strict";
+
+import { DataModel, TypedRow, DataFinder, Table, Field, PrimaryKey, HasMany, HasOne } from "../../src/index";
+import { Order } from "./order";
+
+@Table("customer", "relations")
+export class Customer extends DataModel {
+
+    public static finder = DataFinder.forModel<Customer, number>(Customer);
+
+    @PrimaryKey()
+    @Field("int")
+    public id: number;
+
+    @Field("string")
+    public name: string;
+
+    @HasMany(() => Order, "customerId")
+    public orders: Order[];
+
+    @HasOne(() => Order, "customerId")
+    public anyOrder: Order;
+
+    constructor(data: TypedRow<Customer>) {
+        super();
+        this.init(data);
+    }
+}
@@ -0,0 +1,46 @@
+// Member - tsbean-orm class (decorators, validation)
+
+"use strict";
+
+import { DataModel, TypedRow, DataFinder, DataFilter, Table, Field, PrimaryKey, Required, Length, Pattern, Min, Max, Enum, Validator } from "../../src/index";
+
+@Table("member", "validation")
+export class Member extends DataModel {
+
+    public static finder = DataFinder.forModel<Member, number>(Member);
+
+    @PrimaryKey()
+    @Field("int")
+    public id: number;
+
+    @Required()
+    @Length(3, 20)
+    @Field("string")
+    public username: string;
+
+    @Pattern(/^[^@\s]+@[^@\s]+$/)
+    @Validator(async (email: string, member: Member) => {
+        if (!email) {
+            return null;
+        }
+        const filter = DataFilter.and<Member>(DataFilter.equals("email", email), DataFilter.notEquals("id", member.id));
+        return (await Member.finder.count(filter)) > 0 ? "is already in use" : null;
+    })
+    @Field("string")
+    public email: string;
+
+    @Min(13)
+    @Max(120)
+    @Field("int")
+    public age: number;
+
+    @Required()
+    @Enum(["admin", "user"])
+    @Field("string")
+    public role: string;
+
+    constructor(data: TypedRow<Member>) {
+        super();
+        this.init(data);
+    }
+}
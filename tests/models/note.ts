@@ -0,0 +1,30 @@
+// Note - tsbean-orm class (decorators, soft delete)
+
+"use strict";
+
+import { DataModel, TypedRow, DataFinder, Table, Field, PrimaryKey, SoftDelete } from "../../src/index";
+
+@Table("note", "soft-delete")
+export class Note extends DataModel {
+
+    public static finder = DataFinder.forModel<Note, number>(Note);
+
+    @PrimaryKey()
+    @Field("int")
+    public id: number;
+
+    @Field("string")
+    public text: string;
+
+    @Field("int")
+    public likes: number;
+
+    @SoftDelete()
+    @Field("date")
+    public deletedAt: Date;
+
+    constructor(data: TypedRow<Note>) {
+        super();
+        this.init(data);
+    }
+}
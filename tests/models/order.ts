@@ -0,0 +1,30 @@
+// Order - tsbean-orm class (decorators)
+
+"use strict";
+
+import { DataModel, TypedRow, DataFinder, Table, Field, PrimaryKey, BelongsTo } from "../../src/index";
+import { Customer } from "./customer";
+
+@Table("order", "relations")
+export class Order extends DataModel {
+
+    public static finder = DataFinder.forModel<Order, number>(Order);
+
+    @PrimaryKey()
+    @Field("int")
+    public id: number;
+
+    @Field("int")
+    public customerId: number;
+
+    @Field("number")
+    public total: number;
+
+    @BelongsTo(() => Customer, "customerId")
+    public customer: Customer;
+
+    constructor(data: TypedRow<Order>) {
+        super();
+        this.init(data);
+    }
+}
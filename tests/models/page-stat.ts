@@ -0,0 +1,33 @@
+// Page stats - tsbean-orm class (decorators, upsert)
+
+"use strict";
+
+import { DataModel, TypedRow, DataFinder, Table, Field, PrimaryKey, UpdatedAt } from "../../src/index";
+
+@Table("page_stat", "upsert")
+export class PageStat extends DataModel {
+
+    public static finder = DataFinder.forModel<PageStat, number>(PageStat);
+
+    @PrimaryKey()
+    @Field("int")
+    public id: number;
+
+    @Field("string")
+    public path: string;
+
+    @Field("string")
+    public title: string;
+
+    @Field("int")
+    public views: number;
+
+    @UpdatedAt()
+    @Field("date")
+    public updatedAt: Date;
+
+    constructor(data: TypedRow<PageStat>) {
+        super();
+        this.init(data);
+    }
+}
@@ -1,43 +1,41 @@
-// Person - tsbean-orm class (auto generated)
+// Person - tsbean-orm class (decorators)
 
 "use strict";
 
-import { DataModel, enforceType, TypedRow, DataSource, DataFinder, DataFilter, OrderBy, SelectOptions, DataUpdate } from "../../src/index";
-
-const DATA_SOURCE = DataSource.DEFAULT;
-const TABLE = "person";
-const PRIMARY_KEY = "id";
+import { DataModel, TypedRow, DataFinder, Table, Field, PrimaryKey } from "../../src/index";
 
+@Table("person")
 export class Person extends DataModel {
 
-    public static finder = new DataFinder<Person>(DATA_SOURCE, TABLE, PRIMARY_KEY, (data: TypedRow<Person>) => { return new Person(data) });
+    public static finder = DataFinder.forModel<Person, number>(Person);
 
+    @PrimaryKey()
+    @Field("int")
     public id: number;
+
+    @Field("string")
     public name: string;
+
+    @Field("string")
     public surname: string;
+
+    @Field("int")
     public age: number;
+
+    @Field("boolean")
     public hasDriverLicense: boolean;
+
+    @Field("array")
     public preferences: string[];
+
+    @Field("date")
     public birthDate: Date;
 
     constructor(data: TypedRow<Person>) {
-        // First, we call DataModel constructor 
-        super(DATA_SOURCE, TABLE, PRIMARY_KEY);
-
-        // Second, we set the class properties
-        // The recommended way is to set one by one to prevent prototype pollution
-        // You can also enforce the types if you do not trust the data source
-        // In that case you can use the enforceType utility function
-
-        this.id = enforceType(data.id, "int");
-        this.name = enforceType(data.name, "string");
-        this.surname = enforceType(data.surname, "string");
-        this.age = enforceType(data.age, "int");
-        this.hasDriverLicense = enforceType(data.hasDriverLicense, "boolean");
-        this.preferences = enforceType(data.preferences, "array");
-        this.birthDate = enforceType(data.birthDate, "date");
-
-        // Finally, we must call init()
-        this.init();
+        // The data source, the table and the primary key are taken from the decorators
+        super();
+
+        // The fields are parsed with enforceType, as declared with the decorators
+        this.init(data);
     }
 }
@@ -0,0 +1,45 @@
+// Product - tsbean-orm class (auto generated)
+
+"use strict";
+
+import { DataModel, enforceType, TypedRow, DataFinder } from "../../src/index";
+
+const DATA_SOURCE = "memory";
+const TABLE = "product";
+const PRIMARY_KEY = "id";
+
+export class Product extends DataModel {
+
+    public static finder = new DataFinder<Product, number>(DATA_SOURCE, TABLE, PRIMARY_KEY, (data: TypedRow<Product>) => { return new Product(data) });
+
+    public id: number;
+    public sku: string;
+    public name: string;
+    public category: string;
+    public price: number;
+    public stock: number;
+    public tags: string[];
+    public createdAt: Date;
+
+    constructor(data: TypedRow<Product>) {
+        // First, we call DataModel constructor 
+        super(DATA_SOURCE, TABLE, PRIMARY_KEY);
+
+        // Second, we set the class properties
+        // The recommended way is to set one by one to prevent prototype pollution
+        // You can also enforce the types if you do not trust the data source
+        // In that case you can use the enforceType utility function
+
+        this.id = enforceType(data.id, "int");
+        this.sku = enforceType(data.sku, "string");
+        this.name = enforceType(data.name, "string");
+        this.category = enforceType(data.category, "string");
+        this.price = enforceType(data.price, "number");
+        this.stock = enforceType(data.stock, "int");
+        this.tags = enforceType(data.tags, "array");
+        this.createdAt = enforceType(data.createdAt, "date");
+
+        // Finally, we must call init()
+        this.init();
+    }
+}
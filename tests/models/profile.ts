@@ -0,0 +1,30 @@
+// Profile - tsbean-orm class (decorators, deep diff)
+
+"use strict";
+
+import { DataModel, TypedRow, DataFinder, Table, Field, PrimaryKey, DeepDiff } from "../../src/index";
+
+@DeepDiff()
+@Table("profile", "deep-diff")
+export class Profile extends DataModel {
+
+    public static finder = DataFinder.forModel<Profile, number>(Profile);
+
+    @PrimaryKey()
+    @Field("int")
+    public id: number;
+
+    @Field("string")
+    public name: string;
+
+    @Field("object")
+    public settings: any;
+
+    @Field("array")
+    public tags: string[];
+
+    constructor(data: TypedRow<Profile>) {
+        super();
+        this.init(data);
+    }
+}
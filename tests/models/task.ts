@@ -0,0 +1,34 @@
+// Task - tsbean-orm class (decorators, timestamps)
+
+"use strict";
+
+import { DataModel, TypedRow, DataFinder, Table, Field, PrimaryKey, CreatedAt, UpdatedAt } from "../../src/index";
+
+@Table("task", "timestamps")
+export class Task extends DataModel {
+
+    public static finder = DataFinder.forModel<Task, number>(Task);
+
+    @PrimaryKey()
+    @Field("int")
+    public id: number;
+
+    @Field("string")
+    public title: string;
+
+    @Field("boolean")
+    public done: boolean;
+
+    @CreatedAt()
+    @Field("date")
+    public createdAt: Date;
+
+    @UpdatedAt()
+    @Field("date")
+    public updatedAt: Date;
+
+    constructor(data: TypedRow<Task>) {
+        super();
+        this.init(data);
+    }
+}
@@ -0,0 +1,27 @@
+// Wallet - tsbean-orm class (decorators, optimistic locking)
+
+"use strict";
+
+import { DataModel, TypedRow, DataFinder, Table, Field, PrimaryKey, Version } from "../../src/index";
+
+@Table("wallet", "locking")
+export class Wallet extends DataModel {
+
+    public static finder = DataFinder.forModel<Wallet, string>(Wallet);
+
+    @PrimaryKey()
+    @Field("string")
+    public id: string;
+
+    @Field("number")
+    public balance: number;
+
+    @Version()
+    @Field("int")
+    public version: number;
+
+    constructor(data: TypedRow<Wallet>) {
+        super();
+        this.init(data);
+    }
+}
@@ -0,0 +1,72 @@
+// Test (Nested field paths)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataFinder, DataSource, MemoryDriver, OrderBy, SelectOptions, TypedRow } from '../src/index';
+
+interface Venue {
+    id: number;
+    name: string;
+    address: {
+        city: string;
+        geo: { lat: number, lng: number };
+    };
+}
+
+const driver = new MemoryDriver({
+    tables: {
+        venue: { primaryKey: "id" },
+    },
+});
+
+DataSource.set("nested-paths", new DataSource("nested-paths", driver));
+
+const finder = new DataFinder<Venue, number>("nested-paths", "venue", "id", (data: TypedRow<Venue>) => {
+    return <Venue>data;
+});
+
+describe("Nested field paths", () => {
+
+    before(async () => {
+        await driver.batchInsert("venue", [
+            { id: 1, name: "Arena", address: { city: "Madrid", geo: { lat: 40.4, lng: -3.7 } } },
+            { id: 2, name: "Stadium", address: { city: "Paris", geo: { lat: 48.8, lng: 2.3 } } },
+            { id: 3, name: "Theater", address: { city: "Madrid", geo: { lat: 40.5, lng: -3.6 } } },
+            { id: 4, name: "Club", address: null },
+        ]);
+    });
+
+    it("Filter and sort by nested paths", async () => {
+        const venues = await finder.find(DataFilter.equals("address.city", "Madrid"), OrderBy.desc("address.geo.lat"));
+
+        expect(venues.map(v => v.id)).to.be.eql([3, 1]);
+
+        expect(await finder.count(DataFilter.isNull("address.city"))).to.be.equal(1);
+        expect(await finder.count(DataFilter.greaterThan("address.geo.lng", 0))).to.be.equal(1);
+    });
+
+    it("Fetch only nested paths", async () => {
+        const venues = await finder.find(DataFilter.equals("id", 2), OrderBy.nothing(), SelectOptions.configure<Venue>().fetchOnly(["name", "address.geo.lat"]));
+
+        expect(venues.length).to.be.equal(1);
+        expect(Object.assign({}, venues[0])).to.be.eql({ name: "Stadium", address: { geo: { lat: 48.8 } } });
+    });
+
+    it("Paginate by nested paths", async () => {
+        const page = await finder.findPage(DataFilter.isNotNull("address.city"), OrderBy.asc("address.geo.lat"), 2);
+
+        expect(page.items.map(v => v.id)).to.be.eql([1, 3]);
+
+        const page2 = await finder.findPage(DataFilter.isNotNull("address.city"), OrderBy.asc("address.geo.lat"), 2, page.nextCursor);
+
+        expect(page2.items.map(v => v.id)).to.be.eql([2]);
+    });
+
+    it("Paths are type-checked", () => {
+        // @ts-expect-error Unknown nested field
+        DataFilter.equals<Venue>("address.zip", "28001");
+        // @ts-expect-error Paths only go through objects
+        OrderBy.asc<Venue>("name.length");
+    });
+});
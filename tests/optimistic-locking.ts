@@ -0,0 +1,142 @@
+// Test (Optimistic locking)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataSource, MemoryDriver, StaleObjectError } from '../src/index';
+import { Wallet } from './models/wallet';
+
+const driver = new MemoryDriver({
+    tables: {
+        wallet: { primaryKey: "id" },
+    },
+});
+
+DataSource.set("locking", new DataSource("locking", driver));
+
+describe("Optimistic locking", () => {
+
+    it("Insert sets the initial version", async () => {
+        const wallet = new Wallet({ id: "w1", balance: 100 });
+        await wallet.insert();
+
+        expect(wallet.version).to.be.equal(1);
+        expect((await Wallet.finder.findByKey("w1")).version).to.be.equal(1);
+    });
+
+    it("Save increments the version", async () => {
+        const wallet = await Wallet.finder.findByKey("w1");
+
+        expect(await wallet.save()).to.be.false;
+        expect(wallet.version).to.be.equal(1);
+
+        wallet.balance = 50;
+
+        expect(await wallet.save()).to.be.true;
+        expect(wallet.version).to.be.equal(2);
+
+        wallet.balance = 40;
+
+        expect(await wallet.save()).to.be.true;
+        expect(wallet.version).to.be.equal(3);
+
+        const stored = await Wallet.finder.findByKey("w1");
+
+        expect(stored.balance).to.be.equal(40);
+        expect(stored.version).to.be.equal(3);
+    });
+
+    it("Concurrent modifications throw StaleObjectError", async () => {
+        const w1 = await Wallet.finder.findByKey("w1");
+        const w2 = await Wallet.finder.findByKey("w1");
+
+        w1.balance += 10;
+        await w1.save();
+
+        w2.balance += 20;
+
+        let error: StaleObjectError = null;
+
+        try {
+            await w2.save();
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).to.be.instanceOf(StaleObjectError);
+        expect(error.key).to.be.equal("w1");
+        expect(error.version).to.be.equal(3);
+
+        const stored = await Wallet.finder.findByKey("w1");
+
+        expect(stored.balance).to.be.equal(50);
+        expect(stored.version).to.be.equal(4);
+
+        // Deleted rows are stale too
+        await Wallet.finder.delete(DataFilter.equals("id", "w1"));
+
+        stored.balance = 0;
+        error = null;
+
+        try {
+            await stored.save();
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).to.be.instanceOf(StaleObjectError);
+    });
+
+    it("Save with condition", async () => {
+        const wallet = new Wallet({ id: "w2", balance: 10 });
+        await wallet.insert();
+
+        wallet.balance -= 20;
+
+        expect(await wallet.save(DataFilter.greaterOrEquals("balance", 20))).to.be.false;
+        expect(wallet.version).to.be.equal(1);
+
+        const other = await Wallet.finder.findByKey("w2");
+        other.balance = 30;
+        await other.save();
+
+        wallet.balance = 5;
+
+        let error: Error = null;
+
+        try {
+            await wallet.save(DataFilter.greaterOrEquals("balance", 20));
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).to.be.instanceOf(StaleObjectError);
+    });
+
+    it("Upsert followed by save", async () => {
+        const wallet = new Wallet({ id: "w3", balance: 10 });
+
+        expect(await wallet.upsert()).to.be.equal("inserted");
+        expect(wallet.version).to.be.equal(1);
+
+        const replacement = new Wallet({ id: "w3", balance: 20 });
+
+        expect(await replacement.upsert()).to.be.equal("updated");
+        expect(replacement.version).to.be.equal(2);
+
+        const increment = new Wallet({ id: "w3", balance: 0 });
+
+        expect(await increment.upsert(null, { balance: { update: "inc", value: 5 } })).to.be.equal("updated");
+        expect(increment.balance).to.be.equal(25);
+        expect(increment.version).to.be.equal(3);
+
+        increment.balance = 30;
+
+        expect(await increment.save()).to.be.true;
+
+        const stored = await Wallet.finder.findByKey("w3");
+
+        expect(stored.balance).to.be.equal(30);
+        expect(stored.version).to.be.equal(4);
+    });
+});
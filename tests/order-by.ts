@@ -0,0 +1,106 @@
+// Test (Multi-column ordering)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataFinder, DataSource, MemoryDriver, OrderBy, SelectOptions, TypedRow } from '../src/index';
+
+interface Contact {
+    id: number;
+    firstName: string;
+    lastName: string;
+    city: string;
+}
+
+const driver = new MemoryDriver({
+    tables: {
+        contact: { primaryKey: "id" },
+    },
+});
+
+DataSource.set("order-by", new DataSource("order-by", driver));
+
+// Same data, but the driver only supports sorting by a single field
+const singleKeyDriver: MemoryDriver = Object.create(driver);
+singleKeyDriver.getCapabilities = () => {
+    return {};
+};
+
+DataSource.set("order-by-single", new DataSource("order-by-single", singleKeyDriver));
+
+const finder = new DataFinder<Contact, number>("order-by", "contact", "id", (data: TypedRow<Contact>) => {
+    return <Contact>data;
+});
+
+const singleKeyFinder = new DataFinder<Contact, number>("order-by-single", "contact", "id", (data: TypedRow<Contact>) => {
+    return <Contact>data;
+});
+
+describe("Multi-column ordering", () => {
+
+    before(async () => {
+        await driver.batchInsert("contact", [
+            { id: 1, firstName: "John", lastName: "Smith", city: "London" },
+            { id: 2, firstName: "Anna", lastName: "Smith", city: null },
+            { id: 3, firstName: "Zoe", lastName: "Brown", city: "Paris" },
+            { id: 4, firstName: "Bob", lastName: "Adams", city: null },
+        ]);
+    });
+
+    it("Sort by multiple fields", async () => {
+        const contacts = await finder.find(DataFilter.any(), OrderBy.asc<Contact>("lastName").thenAsc("firstName"));
+
+        expect(contacts.map(c => c.id)).to.be.eql([4, 3, 2, 1]);
+
+        const contacts2 = await finder.find(DataFilter.any(), OrderBy.desc<Contact>("lastName").thenDesc("firstName"), SelectOptions.configure().setMaxRows(2));
+
+        expect(contacts2.map(c => c.id)).to.be.eql([1, 2]);
+    });
+
+    it("Null placement", async () => {
+        expect((await finder.find(DataFilter.any(), OrderBy.asc<Contact>("city").nullsLast())).map(c => c.id)).to.be.eql([1, 3, 2, 4]);
+        expect((await finder.find(DataFilter.any(), OrderBy.desc<Contact>("city").nullsFirst().thenDesc("id"))).map(c => c.id)).to.be.eql([4, 2, 3, 1]);
+    });
+
+    it("Drivers without sort keys support", async () => {
+        // A single field still works
+        expect((await singleKeyFinder.find(DataFilter.any(), OrderBy.desc("firstName"))).map(c => c.id)).to.be.eql([3, 1, 4, 2]);
+
+        let error: Error = null;
+
+        try {
+            await singleKeyFinder.find(DataFilter.any(), OrderBy.asc<Contact>("lastName").thenAsc("firstName"));
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+
+        // Pagination needs the primary key as second sort key
+        error = null;
+
+        try {
+            await singleKeyFinder.findPage(DataFilter.any(), OrderBy.asc("lastName"), 3);
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+
+        const page = await singleKeyFinder.findPage(DataFilter.any(), OrderBy.asc("id"), 3);
+
+        expect(page.items.map(c => c.id)).to.be.eql([1, 2, 3]);
+    });
+
+    it("Pagination rejects multiple fields", async () => {
+        let error: Error = null;
+
+        try {
+            await finder.findPage(DataFilter.any(), OrderBy.asc<Contact>("lastName").thenAsc("firstName"), 2);
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+    });
+});
@@ -0,0 +1,164 @@
+// Test (Keyset pagination)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataSource, MemoryDriver, OrderBy } from '../src/index';
+import { Article } from './models/article';
+
+const driver = new MemoryDriver({
+    tables: {
+        article: { primaryKey: "id" },
+    },
+});
+
+DataSource.set("pagination", new DataSource("pagination", driver));
+
+const rows = [];
+
+for (let i = 1; i <= 10; i++) {
+    rows.push({ id: i, title: "Article " + i, score: Math.floor(i / 3), publishedAt: new Date(Date.UTC(2020, 0, 11 - i)) });
+}
+
+describe("Keyset pagination", () => {
+
+    before(async () => {
+        await driver.batchInsert("article", rows);
+    });
+
+    it("Forward and backward (primary key)", async () => {
+        const page1 = await Article.finder.findPage(DataFilter.any(), OrderBy.nothing(), 4);
+
+        expect(page1.items.map(a => a.id)).to.be.eql([1, 2, 3, 4]);
+        expect(page1.prevCursor).to.be.null;
+        expect(page1.nextCursor).not.to.be.null;
+
+        const page2 = await Article.finder.findPage(DataFilter.any(), OrderBy.nothing(), 4, page1.nextCursor);
+
+        expect(page2.items.map(a => a.id)).to.be.eql([5, 6, 7, 8]);
+
+        const page3 = await Article.finder.findPage(DataFilter.any(), OrderBy.nothing(), 4, page2.nextCursor);
+
+        expect(page3.items.map(a => a.id)).to.be.eql([9, 10]);
+        expect(page3.nextCursor).to.be.null;
+
+        const back2 = await Article.finder.findPage(DataFilter.any(), OrderBy.nothing(), 4, page3.prevCursor);
+
+        expect(back2.items.map(a => a.id)).to.be.eql([5, 6, 7, 8]);
+
+        const back1 = await Article.finder.findPage(DataFilter.any(), OrderBy.nothing(), 4, back2.prevCursor);
+
+        expect(back1.items.map(a => a.id)).to.be.eql([1, 2, 3, 4]);
+        expect(back1.prevCursor).to.be.null;
+    });
+
+    it("Sort field with ties", async () => {
+        const ids: number[] = [];
+
+        let page = await Article.finder.findPage(DataFilter.any(), OrderBy.desc("score"), 3);
+        ids.push(...page.items.map(a => a.id));
+
+        while (page.nextCursor) {
+            page = await Article.finder.findPage(DataFilter.any(), OrderBy.desc("score"), 3, page.nextCursor);
+            ids.push(...page.items.map(a => a.id));
+        }
+
+        expect(ids).to.be.eql([10, 9, 8, 7, 6, 5, 4, 3, 2, 1]);
+    });
+
+    it("Drivers without sort keys", async () => {
+        driver.getCapabilities = () => {
+            return {};
+        };
+
+        try {
+            let error: Error = null;
+
+            try {
+                await Article.finder.findPage(DataFilter.any(), OrderBy.desc("score"), 3);
+            } catch (ex) {
+                error = ex;
+            }
+
+            expect(error.message).to.match(/requires a driver supporting sort keys/);
+
+            // Sorting by the primary key does not need a tie-breaker
+            const page = await Article.finder.findPage(DataFilter.any(), OrderBy.desc("id"), 3);
+
+            expect(page.items.map(a => a.id)).to.be.eql([10, 9, 8]);
+        } finally {
+            delete driver.getCapabilities;
+        }
+    });
+
+    it("Dates and filters", async () => {
+        const where = DataFilter.greaterThan<Article>("id", 2);
+
+        const page1 = await Article.finder.findPage(where, OrderBy.asc("publishedAt"), 5);
+
+        expect(page1.items.map(a => a.id)).to.be.eql([10, 9, 8, 7, 6]);
+
+        const page2 = await Article.finder.findPage(where, OrderBy.asc("publishedAt"), 5, page1.nextCursor);
+
+        expect(page2.items.map(a => a.id)).to.be.eql([5, 4, 3]);
+        expect(page2.nextCursor).to.be.null;
+    });
+
+    it("Invalid cursors", async () => {
+        const page1 = await Article.finder.findPage(DataFilter.any(), OrderBy.asc("score"), 2);
+
+        let error: Error = null;
+
+        try {
+            await Article.finder.findPage(DataFilter.any(), OrderBy.desc("score"), 2, page1.nextCursor);
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+
+        error = null;
+
+        try {
+            await Article.finder.findPage(DataFilter.any(), OrderBy.asc("score"), 2, "invalid");
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+
+        const badBigInt = Buffer.from(JSON.stringify(["next", "score", "asc", { n: "x" }, 1]), "utf8").toString("base64");
+
+        error = null;
+
+        try {
+            await Article.finder.findPage(DataFilter.any(), OrderBy.asc("score"), 2, badBigInt);
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error.message).to.be.equal("Invalid pagination cursor");
+    });
+
+    it("Null values of the sort field", async () => {
+        await driver.batchInsert("article", [
+            { id: 11, title: "Article 11", score: null, publishedAt: null },
+            { id: 12, title: "Article 12", score: null, publishedAt: null },
+        ]);
+
+        const ids: number[] = [];
+
+        let page = await Article.finder.findPage(DataFilter.any(), OrderBy.asc("score"), 2);
+        ids.push(...page.items.map(a => a.id));
+
+        while (page.nextCursor) {
+            page = await Article.finder.findPage(DataFilter.any(), OrderBy.asc("score"), 2, page.nextCursor);
+            ids.push(...page.items.map(a => a.id));
+        }
+
+        expect(ids).to.be.eql([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+
+        // Sorting by the primary key includes all the rows
+        expect((await Article.finder.findPage(DataFilter.any(), OrderBy.nothing(), 20)).items.length).to.be.equal(12);
+    });
+});
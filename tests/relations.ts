@@ -0,0 +1,84 @@
+// Test (Relations)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataSource, DataSourceDriver, MemoryDriver, OrderBy, SelectOptions } from '../src/index';
+import { Customer } from './models/customer';
+import { Order } from './models/order';
+
+const driver = new MemoryDriver();
+
+// Counts the queries made to the driver
+let queryCount = 0;
+const countingDriver: DataSourceDriver = Object.create(driver);
+countingDriver.find = function (...args: any[]) {
+    queryCount++;
+    return (<any>driver.find)(...args);
+};
+
+DataSource.set("relations", new DataSource("relations", countingDriver));
+
+describe("Relations", () => {
+
+    before(async () => {
+        await driver.batchInsert("customer", [
+            { id: 1, name: "Alice" },
+            { id: 2, name: "Bob" },
+            { id: 3, name: "Carol" },
+        ]);
+        await driver.batchInsert("order", [
+            { id: 1, customerId: 1, total: 10 },
+            { id: 2, customerId: 1, total: 20 },
+            { id: 3, customerId: 2, total: 30 },
+            { id: 4, customerId: null, total: 40 },
+        ]);
+    });
+
+    it("Belongs to", async () => {
+        queryCount = 0;
+
+        const orders = await Order.finder.find(DataFilter.any(), OrderBy.asc("id"), SelectOptions.configure().include(["customer"]));
+
+        expect(queryCount).to.be.equal(2);
+        expect(orders.map(o => o.customer ? o.customer.name : null)).to.be.eql(["Alice", "Alice", "Bob", null]);
+    });
+
+    it("Has many and has one", async () => {
+        queryCount = 0;
+
+        const customers = await Customer.finder.find(DataFilter.any(), OrderBy.asc("id"), SelectOptions.configure().include(["orders", "anyOrder"]));
+
+        expect(queryCount).to.be.equal(3);
+        expect(customers.map(c => c.orders.map(o => o.id))).to.be.eql([[1, 2], [3], []]);
+        expect(customers.map(c => c.anyOrder ? c.anyOrder.id : null)).to.be.eql([1, 3, null]);
+    });
+
+    it("Related instances are not persisted", async () => {
+        const orders = await Order.finder.find(DataFilter.equals("id", 1), OrderBy.nothing(), SelectOptions.configure().include(["customer"]));
+        const order = orders[0];
+
+        expect(order.toObject()).to.be.eql({ id: 1, customerId: 1, total: 10 });
+
+        order.total = 15;
+
+        expect(await order.save()).to.be.true;
+
+        const row = await driver.findByKey("order", "id", 1);
+
+        expect(Object.keys(row).sort()).to.be.eql(["customerId", "id", "total"]);
+        expect(row.total).to.be.equal(15);
+    });
+
+    it("Undeclared relation", async () => {
+        let error: Error = null;
+
+        try {
+            await Order.finder.find(DataFilter.any(), OrderBy.nothing(), SelectOptions.configure().include(<any>["invoice"]));
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+    });
+});
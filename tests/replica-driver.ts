@@ -0,0 +1,137 @@
+// Test (Read replica routing)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataFinder, DataSource, MemoryDriver, ReplicaRoutingDriver, TypedRow } from '../src/index';
+
+interface Item {
+    id: number;
+    server: string;
+}
+
+function createServer(name: string): MemoryDriver {
+    const driver = new MemoryDriver({
+        tables: {
+            item: { primaryKey: "id" },
+        },
+    });
+    driver.insert("item", { id: 0, server: name }, "id");
+    return driver;
+}
+
+const finder = new DataFinder<Item, number>("replicas", "item", "id", (data: TypedRow<Item>) => {
+    return <Item>data;
+});
+
+async function whoServes(): Promise<string> {
+    return (await finder.findByKey(0)).server;
+}
+
+describe("Read replica routing", () => {
+
+    it("Round-robin and weighted reads, writes to the primary", async () => {
+        const primary = createServer("primary");
+
+        DataSource.set("replicas", ReplicaRoutingDriver.createDataSource("replicas", {
+            primary: primary,
+            replicas: [{ driver: createServer("r1") }, { driver: createServer("r2") }],
+        }));
+
+        const servers: string[] = [];
+        for (let i = 0; i < 4; i++) {
+            servers.push(await whoServes());
+        }
+        expect(servers).to.be.eql(["r1", "r2", "r1", "r2"]);
+
+        await finder.update({ server: "updated" }, DataFilter.any());
+        expect((await primary.findByKey("item", "id", 0)).server).to.be.equal("updated");
+        expect(await whoServes()).to.be.equal("r1");
+
+        DataSource.set("replicas", ReplicaRoutingDriver.createDataSource("replicas", {
+            primary: createServer("primary"),
+            replicas: [{ driver: createServer("r1"), weight: 3 }, { driver: createServer("r2"), weight: 1 }],
+        }));
+
+        const counts = new Map<string, number>();
+        for (let i = 0; i < 8; i++) {
+            const server = await whoServes();
+            counts.set(server, (counts.get(server) || 0) + 1);
+        }
+        expect(counts.get("r1")).to.be.equal(6);
+        expect(counts.get("r2")).to.be.equal(2);
+
+        expect(() => new ReplicaRoutingDriver({ primary: createServer("primary"), replicas: [{ driver: createServer("r1"), weight: 0 }] })).to.throw(/Invalid replica weight/);
+    });
+
+    it("Sticky window after writes", async () => {
+        let now = 1000;
+
+        DataSource.set("replicas", ReplicaRoutingDriver.createDataSource("replicas", {
+            primary: createServer("primary"),
+            replicas: [{ driver: createServer("r1") }],
+            stickyWindow: 500,
+            clock: () => new Date(now),
+        }));
+
+        expect(await whoServes()).to.be.equal("r1");
+
+        await finder.update({ server: "updated" }, DataFilter.equals("id", 1));
+
+        now += 499;
+        expect(await whoServes()).to.be.equal("primary");
+
+        now += 1;
+        expect(await whoServes()).to.be.equal("r1");
+
+        // The window starts when the write finishes
+        const slowPrimary = createServer("primary");
+        const update = slowPrimary.updateMany;
+        slowPrimary.updateMany = async function (...args: any[]) {
+            now += 1000;
+            return (<any>update).apply(this, args);
+        };
+
+        DataSource.set("replicas", ReplicaRoutingDriver.createDataSource("replicas", {
+            primary: slowPrimary,
+            replicas: [{ driver: createServer("r1") }],
+            stickyWindow: 500,
+            clock: () => new Date(now),
+        }));
+
+        await finder.update({ server: "updated" }, DataFilter.equals("id", 1));
+
+        expect(await whoServes()).to.be.equal("primary");
+    });
+
+    it("Read-your-writes scopes and transactions", async () => {
+        const driver = new ReplicaRoutingDriver({
+            primary: createServer("primary"),
+            replicas: [{ driver: createServer("r1") }],
+        });
+        const dataSource = new DataSource("replicas", driver);
+
+        DataSource.set("replicas", dataSource);
+
+        const results = await Promise.all([
+            driver.readYourWrites(async () => {
+                const before = await whoServes();
+                await finder.update({ server: "updated" }, DataFilter.equals("id", 1));
+                return [before, await whoServes(), await whoServes()];
+            }),
+            driver.readYourWrites(async () => {
+                return [await whoServes(), await whoServes()];
+            }),
+        ]);
+
+        expect(results).to.be.eql([["r1", "primary", "primary"], ["r1", "r1"]]);
+
+        // Outside the scope, reads go back to the replicas
+        expect(await whoServes()).to.be.equal("r1");
+
+        // Transactions run in the primary
+        await dataSource.transaction(async tx => {
+            expect((await finder.withTransaction(tx).findByKey(0)).server).to.be.equal("primary");
+        });
+    });
+});
@@ -0,0 +1,108 @@
+// Test (REST query parser)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataFinder, DataSource, MemoryDriver, OrderBy, parseRestQuery, RestQueryError, RestQueryOptions, TypedRow } from '../src/index';
+
+interface Employee {
+    id: number;
+    name: string;
+    age: number;
+    active: boolean;
+    hiredAt: Date;
+    salary: bigint;
+}
+
+const driver = new MemoryDriver({
+    tables: {
+        employee: { primaryKey: "id" },
+    },
+});
+
+DataSource.set("rest-query", new DataSource("rest-query", driver));
+
+const finder = new DataFinder<Employee, number>("rest-query", "employee", "id", (data: TypedRow<Employee>) => {
+    return <Employee>data;
+});
+
+const options: RestQueryOptions<Employee> = {
+    fields: {
+        id: "int",
+        name: { type: "string", operators: ["eq", "ilike", "in"] },
+        age: "int",
+        active: { type: "boolean", sort: false },
+        hiredAt: "date",
+        salary: { type: "bigint", filter: false },
+    },
+    maxPageSize: 50,
+};
+
+function expectFailures(query: any, codes: string[]) {
+    let error: Error = null;
+
+    try {
+        parseRestQuery(query, options);
+    } catch (ex) {
+        error = ex;
+    }
+
+    expect(error).to.be.instanceOf(RestQueryError);
+    expect((<RestQueryError>error).failures.map(f => f.code)).to.be.eql(codes);
+}
+
+describe("REST query parser", () => {
+
+    before(async () => {
+        await driver.batchInsert("employee", [
+            { id: 1, name: "Alice", age: 30, active: true, hiredAt: new Date("2020-01-01"), salary: BigInt(1000) },
+            { id: 2, name: "Bob", age: 45, active: false, hiredAt: new Date("2015-06-01"), salary: BigInt(2000) },
+            { id: 3, name: "alicia", age: 22, active: true, hiredAt: new Date("2023-03-01"), salary: BigInt(1500) },
+            { id: 4, name: "Carol", age: 38, active: true, hiredAt: null, salary: BigInt(3000) },
+        ]);
+    });
+
+    it("Filters, order and page", async () => {
+        const query = parseRestQuery<Employee>({ "age[gte]": "25", active: "true", sort: "-age,name", page: "1", pageSize: "2" }, options);
+
+        expect(query.filter.query).to.be.eql(DataFilter.and<Employee>(DataFilter.greaterOrEquals("age", 25), DataFilter.equals("active", true)).query);
+        expect(query.orderBy.keys).to.be.eql([{ by: "age", dir: "desc" }, { by: "name", dir: "asc" }]);
+        expect(query.page).to.be.equal(1);
+        expect(query.pageSize).to.be.equal(2);
+
+        const employees = await finder.find(query.filter, query.orderBy, query.options);
+
+        expect(employees.map(e => e.id)).to.be.eql([4, 1]);
+
+        const page2 = parseRestQuery<Employee>({ "age[gte]": "25", active: "true", sort: "-age,name", page: "2", pageSize: "2" }, options);
+
+        expect(page2.options.skip).to.be.equal(2);
+        expect((await finder.find(page2.filter, page2.orderBy, page2.options)).map(e => e.id)).to.be.eql([]);
+    });
+
+    it("Nested operators, lists, null checks and type coercion", async () => {
+        const query = parseRestQuery<Employee>({ name: { ilike: "ali%" }, id: ["1", "3", "4"], hiredAt: { gt: "2021-01-01", null: "false" }, fields: "id,name" }, options);
+
+        expect(await finder.count(query.filter)).to.be.equal(1);
+
+        const employees = await finder.find(query.filter, OrderBy.nothing(), query.options);
+
+        expect(Object.assign({}, employees[0])).to.be.eql({ id: 3, name: "alicia" });
+        expect(query.pageSize).to.be.equal(20);
+
+        expect(parseRestQuery<Employee>({}, options).filter.query).to.be.null;
+    });
+
+    it("Structured errors", () => {
+        expectFailures({ email: "x" }, ["unknown_field"]);
+        expectFailures({ "salary[gt]": "10" }, ["not_filterable"]);
+        expectFailures({ sort: "active,-foo" }, ["not_sortable", "unknown_field"]);
+        expectFailures({ "name[gt]": "a", "age[regex]": ".*" }, ["invalid_operator", "invalid_operator"]);
+        expectFailures({ age: "old", hiredAt: "yesterday", active: "yes" }, ["invalid_value", "invalid_value", "invalid_value"]);
+        expectFailures({ "age[gte]": "17.9" }, ["invalid_value"]);
+        expectFailures({ page: "0", pageSize: "500" }, ["invalid_page", "page_size_exceeded"]);
+
+        // Unknown parameters can be ignored
+        expect(parseRestQuery<Employee>({ token: "abc", age: "30" }, Object.assign({ ignoreUnknown: true }, options)).filter.query).to.be.eql({ operation: "eq", key: "age", value: 30 });
+    });
+});
@@ -0,0 +1,195 @@
+// Test (Sharded driver)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataFinder, DataSource, GenericRow, hashShardValue, MemoryDriver, OrderBy, SelectOptions, ShardedDriver, SortKey, TypedRow } from '../src/index';
+
+interface Order {
+    id: number;
+    customer: number;
+    total: number;
+    note: string;
+}
+
+const shards = [0, 1, 2].map(() => new MemoryDriver({
+    tables: {
+        order: { primaryKey: "id" },
+    },
+}));
+
+const driver = new ShardedDriver({
+    shards: shards,
+    field: "customer",
+    tables: {
+        order: "id",
+    },
+    shardFunction: (value, shardCount) => Number(value) % shardCount,
+});
+
+DataSource.set("sharded", new DataSource("sharded", driver));
+
+const finder = new DataFinder<Order, number>("sharded", "order", "id", (data: TypedRow<Order>) => {
+    return <Order>data;
+});
+
+describe("Sharded driver", () => {
+
+    before(async () => {
+        const rows: Order[] = [];
+        for (let id = 1; id <= 9; id++) {
+            rows.push({ id: id, customer: id % 2, total: id * 10, note: id % 3 === 0 ? null : "n" + id });
+        }
+        await driver.batchInsert("order", rows);
+    });
+
+    it("Routes rows and key lookups to a single shard", async () => {
+        expect(await Promise.all(shards.map(s => s.count("order", null, {})))).to.be.eql([3, 3, 3]);
+        expect(await shards[1].findByKey("order", "id", 4)).to.not.be.null;
+
+        expect((await finder.findByKey(5)).total).to.be.equal(50);
+
+        await DataSource.get("sharded").driver.insert("order", { id: 10, customer: 0, total: 100, note: "n10" }, "id");
+        expect(await shards[1].findByKey("order", "id", 10)).to.not.be.null;
+
+        expect(driver.getShardField("order")).to.be.equal("id");
+        expect(driver.getShardField("customer")).to.be.equal("customer");
+
+        let error: Error = null;
+        try {
+            await driver.insert("order", { customer: 1, total: 1 }, "id");
+        } catch (ex) {
+            error = ex;
+        }
+        expect(error.message).to.match(/shard field id is not set/);
+    });
+
+    it("Fans out finds, merging sort, skip and limit", async () => {
+        const page = await finder.find(DataFilter.any(), OrderBy.desc("total"), SelectOptions.configure<Order>().setFirstRow(2).setMaxRows(3).fetchOnly(["id"]));
+
+        expect(page.map(o => Object.assign({}, o))).to.be.eql([{ id: 8 }, { id: 7 }, { id: 6 }]);
+
+        const nullsLast = await finder.find(DataFilter.lessThan("id", 7), OrderBy.asc<Order>("note").nullsLast().thenDesc("id"), SelectOptions.configure());
+
+        expect(nullsLast.map(o => o.id)).to.be.eql([1, 2, 4, 5, 6, 3]);
+
+        const streamed: number[] = [];
+        await finder.findStream(DataFilter.equals("customer", 1), OrderBy.asc("id"), SelectOptions.configure().setMaxRows(3), async o => {
+            streamed.push(o.id);
+        });
+        expect(streamed).to.be.eql([1, 3, 5]);
+
+        const unsorted: number[] = [];
+        await finder.findStream(DataFilter.any(), OrderBy.nothing(), SelectOptions.configure().setMaxRows(4), async o => {
+            unsorted.push(o.id);
+        });
+        expect(unsorted.length).to.be.equal(4);
+    });
+
+    it("Merges by nested sort fields outside the projection", async () => {
+        const nested = new ShardedDriver({
+            shards: [new MemoryDriver(), new MemoryDriver()],
+            field: "id",
+            shardFunction: (value, shardCount) => Number(value) % shardCount,
+        });
+
+        await nested.batchInsert("player", [1, 2, 3, 4].map(id => {
+            return { id: id, meta: { name: "p" + id, rank: 10 - id } };
+        }));
+
+        const projection = new Set(["id", "meta.name"]);
+
+        expect(await nested.find("player", null, "meta.rank", "asc", -1, 2, projection, {})).to.be.eql([
+            { id: 4, meta: { name: "p4" } },
+            { id: 3, meta: { name: "p3" } },
+        ]);
+
+        expect(await nested.find("player", null, "meta.rank", "desc", 1, 2, new Set(["id"]), {})).to.be.eql([{ id: 2 }, { id: 3 }]);
+
+        const streamed: GenericRow[] = [];
+        await nested.findStream("player", null, "meta.rank", "asc", 1, 2, projection, {}, async row => {
+            streamed.push(row);
+        });
+        expect(streamed).to.be.eql([
+            { id: 3, meta: { name: "p3" } },
+            { id: 2, meta: { name: "p2" } },
+        ]);
+    });
+
+    it("Sends a fixed placement of the null values to the shards", async () => {
+        const received: SortKey[][] = [];
+        const spies = [0, 1].map(() => {
+            const shard = new MemoryDriver();
+            const find = shard.find;
+            shard.find = function (...args: any[]) {
+                received.push(args[7].sort);
+                return (<any>find).apply(shard, args);
+            };
+            return shard;
+        });
+
+        const merged = new ShardedDriver({
+            shards: spies,
+            field: "id",
+            shardFunction: (value, shardCount) => Number(value) % shardCount,
+        });
+
+        await merged.batchInsert("item", [{ id: 1, rank: null }, { id: 2, rank: 2 }, { id: 3, rank: 1 }, { id: 4, rank: null }]);
+
+        expect((await merged.find("item", null, "rank", "desc", -1, -1, null, {})).map(r => r.rank)).to.be.eql([2, 1, null, null]);
+        expect(received).to.be.eql([[{ by: "rank", dir: "desc", nulls: "last" }], [{ by: "rank", dir: "desc", nulls: "last" }]]);
+    });
+
+    it("Sends filters on the shard field only to the matching shards", async () => {
+        const queried: number[] = [];
+        const originals = shards.map(s => s.find);
+
+        shards.forEach((shard, i) => {
+            shard.find = function (...args: any[]) {
+                queried.push(i);
+                return (<any>originals[i]).apply(shard, args);
+            };
+        });
+
+        try {
+            expect((await finder.find(DataFilter.into("id", [3, 6]))).map(o => o.id).sort()).to.be.eql([3, 6]);
+            expect(queried).to.be.eql([0]);
+
+            queried.length = 0;
+            await finder.find(DataFilter.and<any>(DataFilter.greaterThan("total", 0), DataFilter.or(DataFilter.equals("id", 1), DataFilter.equals("id", 5))));
+            expect(queried.sort()).to.be.eql([1, 2]);
+        } finally {
+            shards.forEach((shard, i) => {
+                shard.find = originals[i];
+            });
+        }
+    });
+
+    it("Aggregates counts, sums and affected rows", async () => {
+        expect(await finder.count(DataFilter.any())).to.be.equal(10);
+        expect(await finder.count(DataFilter.equals("customer", 1))).to.be.equal(5);
+        expect(await DataSource.get("sharded").driver.sum("order", null, "id", "total")).to.be.equal(550);
+
+        expect(await finder.update({ note: "updated" }, DataFilter.greaterThan("total", 50))).to.be.equal(5);
+        expect(await finder.delete(DataFilter.equals("note", "updated"))).to.be.equal(5);
+        expect(await finder.count(DataFilter.any())).to.be.equal(5);
+
+        let error: Error = null;
+        try {
+            await finder.update({ id: 20 }, DataFilter.any());
+        } catch (ex) {
+            error = ex;
+        }
+        expect(error.message).to.match(/Cannot update the shard field id/);
+    });
+
+    it("Default shard function", () => {
+        for (const value of [1, "abc", BigInt(7), new Date(0)]) {
+            const shard = hashShardValue(value, 4);
+            expect(shard).to.be.within(0, 3);
+            expect(hashShardValue(value, 4)).to.be.equal(shard);
+        }
+
+        expect(() => new ShardedDriver({ shards: [], field: "id" })).to.throw(/at least one shard/);
+    });
+});
@@ -0,0 +1,85 @@
+// Test (Soft delete)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataSource, MemoryDriver, OrderBy, SelectOptions } from '../src/index';
+import { Note } from './models/note';
+
+const driver = new MemoryDriver({
+    tables: {
+        note: { primaryKey: "id" },
+    },
+});
+
+DataSource.set("soft-delete", new DataSource("soft-delete", driver));
+
+describe("Soft delete", () => {
+
+    before(async () => {
+        for (let i = 1; i <= 5; i++) {
+            await new Note({ id: i, text: "Note " + i, likes: i, deletedAt: null }).insert();
+        }
+    });
+
+    it("Deleting a model sets the deletion timestamp", async () => {
+        const note = await Note.finder.findByKey(1);
+
+        expect(await note.delete()).to.be.true;
+        expect(note.deletedAt).to.be.instanceOf(Date);
+        expect(await note.delete()).to.be.false;
+
+        // The row is kept
+        const rows = await driver.find("note", DataFilter.equals("id", 1).query, null, null, -1, -1, null, {});
+
+        expect(rows.length).to.be.equal(1);
+        expect(rows[0].deletedAt).to.be.instanceOf(Date);
+    });
+
+    it("Queries exclude soft-deleted rows", async () => {
+        expect(await Note.finder.findByKey(1)).to.be.null;
+        expect((await Note.finder.find(DataFilter.any(), OrderBy.asc("id"))).map(n => n.id)).to.be.eql([2, 3, 4, 5]);
+        expect(await Note.finder.count(DataFilter.any())).to.be.equal(4);
+        expect(await Note.finder.sum("likes", DataFilter.lessThan("id", 3))).to.be.equal(2);
+
+        const streamed: number[] = [];
+        await Note.finder.findStreamSync(DataFilter.any(), OrderBy.asc("id"), SelectOptions.default(), n => streamed.push(n.id));
+
+        expect(streamed).to.be.eql([2, 3, 4, 5]);
+
+        // Updates do not affect soft-deleted rows
+        expect(await Note.finder.update({ likes: 0 }, DataFilter.lessThan("id", 3))).to.be.equal(1);
+    });
+
+    it("Finder delete, withDeleted and onlyDeleted", async () => {
+        expect(await Note.finder.delete(DataFilter.into("id", [1, 2, 3]))).to.be.equal(2);
+
+        expect(await Note.finder.count(DataFilter.any())).to.be.equal(2);
+        expect(await Note.finder.withDeleted().count(DataFilter.any())).to.be.equal(5);
+        expect((await Note.finder.onlyDeleted().find(DataFilter.any(), OrderBy.asc("id"))).map(n => n.id)).to.be.eql([1, 2, 3]);
+        expect(await Note.finder.withDeleted().findByKey(1)).not.to.be.null;
+        expect(await Note.finder.onlyDeleted().findByKey(4)).to.be.null;
+    });
+
+    it("Restore", async () => {
+        const note = await Note.finder.onlyDeleted().findByKey(1);
+
+        expect(await note.restore()).to.be.true;
+        expect(note.deletedAt).to.be.null;
+        expect(await note.restore()).to.be.false;
+
+        expect(await Note.finder.restore(DataFilter.any())).to.be.equal(2);
+        expect(await Note.finder.count(DataFilter.any())).to.be.equal(5);
+    });
+
+    it("Force delete", async () => {
+        const note = await Note.finder.findByKey(1);
+
+        expect(await note.forceDelete()).to.be.true;
+
+        await Note.finder.delete(DataFilter.equals("id", 2));
+
+        expect(await Note.finder.forceDelete(DataFilter.lessThan("id", 4))).to.be.equal(2);
+        expect(await Note.finder.withDeleted().count(DataFilter.any())).to.be.equal(2);
+    });
+});
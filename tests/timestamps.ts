@@ -0,0 +1,77 @@
+// Test (Timestamps)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataSource, MemoryDriver } from '../src/index';
+import { Task } from './models/task';
+
+const dataSource = MemoryDriver.createDataSource("timestamps", {
+    tables: {
+        task: { primaryKey: "id", autoIncrement: true },
+    },
+});
+
+DataSource.set("timestamps", dataSource);
+
+let now = new Date("2020-01-01T00:00:00Z");
+
+dataSource.clock = () => now;
+
+describe("Timestamps", () => {
+
+    it("Insert sets createdAt and updatedAt", async () => {
+        const task = new Task({ title: "Task 1", done: false });
+        await task.insert();
+
+        expect(task.createdAt).to.be.eql(now);
+        expect(task.updatedAt).to.be.eql(now);
+
+        const stored = await Task.finder.findByKey(task.id);
+
+        expect(stored.createdAt).to.be.eql(now);
+        expect(stored.updatedAt).to.be.eql(now);
+
+        // Explicit values are kept
+        const imported = new Task({ title: "Task 2", done: true, createdAt: new Date("2019-01-01T00:00:00Z") });
+        await imported.insert();
+
+        expect(imported.createdAt).to.be.eql(new Date("2019-01-01T00:00:00Z"));
+        expect(imported.updatedAt).to.be.eql(now);
+    });
+
+    it("Save bumps updatedAt only with changes", async () => {
+        const created = now;
+        now = new Date("2020-01-02T00:00:00Z");
+
+        const task = await Task.finder.findByKey(1);
+
+        expect(await task.save()).to.be.false;
+        expect((await Task.finder.findByKey(1)).updatedAt).to.be.eql(created);
+
+        task.done = true;
+
+        expect(await task.save()).to.be.true;
+        expect(task.updatedAt).to.be.eql(now);
+
+        const stored = await Task.finder.findByKey(1);
+
+        expect(stored.createdAt).to.be.eql(created);
+        expect(stored.updatedAt).to.be.eql(now);
+    });
+
+    it("Bulk updates bump updatedAt", async () => {
+        now = new Date("2020-01-03T00:00:00Z");
+
+        expect(await Task.finder.update({ done: false }, DataFilter.any())).to.be.equal(2);
+
+        const tasks = await Task.finder.find(DataFilter.any());
+
+        expect(tasks.map(t => t.updatedAt)).to.be.eql([now, now]);
+
+        // Explicit values are kept
+        await Task.finder.update({ updatedAt: new Date("2020-01-10T00:00:00Z") }, DataFilter.equals("id", 1));
+
+        expect((await Task.finder.findByKey(1)).updatedAt).to.be.eql(new Date("2020-01-10T00:00:00Z"));
+    });
+});
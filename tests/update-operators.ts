@@ -0,0 +1,103 @@
+// Test (Update operators)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataFinder, DataSource, DataUpdate, MemoryDriver, TypedRow } from '../src/index';
+
+interface Item {
+    id: number;
+    name: string;
+    price: number;
+    stock: number;
+    tags: string[];
+    history: { price: number }[];
+    checkedAt: Date;
+}
+
+const driver = new MemoryDriver({
+    tables: {
+        item: { primaryKey: "id" },
+    },
+});
+
+DataSource.set("operators", new DataSource("operators", driver));
+
+const finder = new DataFinder<Item, number>("operators", "item", "id", (data: TypedRow<Item>) => {
+    return <Item>data;
+});
+
+describe("Update operators", () => {
+
+    before(async () => {
+        await driver.batchInsert("item", [
+            { id: 1, name: "Pen", price: 2, stock: 10, tags: ["office"], history: [], checkedAt: null },
+            { id: 2, name: "Notebook", price: 5, stock: null, tags: null, history: [{ price: 4 }], checkedAt: null },
+        ]);
+    });
+
+    it("Unset, multiply, min and max", async () => {
+        await finder.update({ name: DataUpdate.unset(), price: DataUpdate.multiply(1.5), stock: DataUpdate.min(5) }, DataFilter.equals("id", 1));
+
+        let item = await finder.findByKey(1);
+
+        expect(item.name).to.be.null;
+        expect(item.price).to.be.equal(3);
+        expect(item.stock).to.be.equal(5);
+
+        await finder.update({ stock: DataUpdate.max(3) }, DataFilter.any());
+
+        item = await finder.findByKey(1);
+
+        expect(item.stock).to.be.equal(5);
+        expect((await finder.findByKey(2)).stock).to.be.equal(3);
+    });
+
+    it("Push, pull and addToSet", async () => {
+        await finder.update({ tags: DataUpdate.push("sale", "office"), history: DataUpdate.push({ price: 3 }) }, DataFilter.any());
+
+        expect((await finder.findByKey(1)).tags).to.be.eql(["office", "sale", "office"]);
+        expect((await finder.findByKey(2)).tags).to.be.eql(["sale", "office"]);
+        expect((await finder.findByKey(2)).history).to.be.eql([{ price: 4 }, { price: 3 }]);
+
+        await finder.update({ tags: DataUpdate.pull("office"), history: DataUpdate.pull({ price: 4 }) }, DataFilter.any());
+
+        expect((await finder.findByKey(1)).tags).to.be.eql(["sale"]);
+        expect((await finder.findByKey(2)).history).to.be.eql([{ price: 3 }]);
+
+        await finder.update({ tags: DataUpdate.addToSet("sale", "new", "new") }, DataFilter.equals("id", 1));
+
+        expect((await finder.findByKey(1)).tags).to.be.eql(["sale", "new"]);
+
+        // Array operators on non-array values fail
+        let error: Error = null;
+
+        try {
+            await finder.update(<any>{ name: DataUpdate.push("x") }, DataFilter.equals("id", 2));
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).not.to.be.null;
+        expect((await finder.findByKey(2)).name).to.be.equal("Notebook");
+    });
+
+    it("Current date", async () => {
+        const dataSource = DataSource.get("operators");
+        const date = new Date("2021-03-04T05:06:07.000Z");
+
+        dataSource.clock = () => new Date(date.getTime());
+
+        try {
+            await finder.update({ checkedAt: DataUpdate.currentDate() }, DataFilter.equals("id", 1));
+        } finally {
+            dataSource.clock = () => new Date();
+        }
+
+        const item = await finder.findByKey(1);
+
+        expect(item.checkedAt).to.be.instanceOf(Date);
+        expect(item.checkedAt.getTime()).to.be.equal(date.getTime());
+        expect((await finder.findByKey(2)).checkedAt).to.be.null;
+    });
+});
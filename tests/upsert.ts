@@ -0,0 +1,95 @@
+// Test (Upsert)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataSource, DataUpdate, MemoryDriver, OrderBy } from '../src/index';
+import { PageStat } from './models/page-stat';
+
+const driver = new MemoryDriver({
+    tables: {
+        page_stat: {
+            primaryKey: "id",
+            indexes: {
+                path_index: { field: "path", unique: true },
+            },
+        },
+    },
+});
+
+const dataSource = new DataSource("upsert", driver);
+
+DataSource.set("upsert", dataSource);
+
+describe("Upsert", () => {
+
+    it("Upsert by primary key", async () => {
+        const stat = new PageStat({ id: 1, path: "/", title: "Home", views: 1 });
+
+        expect(await stat.upsert()).to.be.equal("inserted");
+        expect(stat.updatedAt).to.be.instanceOf(Date);
+
+        const replacement = new PageStat({ id: 1, path: "/", title: "Home page", views: 10 });
+
+        expect(await replacement.upsert()).to.be.equal("updated");
+
+        const stored = await PageStat.finder.findByKey(1);
+
+        expect(stored.title).to.be.equal("Home page");
+        expect(stored.views).to.be.equal(10);
+        expect(await PageStat.finder.count(DataFilter.any())).to.be.equal(1);
+    });
+
+    it("Upsert by unique fields, with separate update values", async () => {
+        const hit = (id: number, path: string) => {
+            return new PageStat({ id: id, path: path, title: path, views: 1 }).upsert(["path"], { views: DataUpdate.increment(1) });
+        };
+
+        expect(await hit(2, "/about")).to.be.equal("inserted");
+        expect(await hit(3, "/about")).to.be.equal("updated");
+        expect(await hit(4, "/")).to.be.equal("updated");
+
+        const stats = await PageStat.finder.find(DataFilter.any(), OrderBy.asc("id"));
+
+        expect(stats.map(s => [s.id, s.path, s.views])).to.be.eql([[1, "/", 11], [2, "/about", 2]]);
+    });
+
+    it("Upsert many", async () => {
+        const result = await PageStat.finder.upsertMany([
+            { id: 5, path: "/contact", title: "Contact", views: 1 },
+            { id: 6, path: "/about", title: "About", views: 1 },
+        ], ["path"], { views: DataUpdate.increment(1) });
+
+        expect(result).to.be.eql({ inserted: 1, updated: 1 });
+        expect((await PageStat.finder.find(DataFilter.equals("path", "/about")))[0].views).to.be.equal(3);
+        expect((await PageStat.finder.findByKey(5)).updatedAt).to.be.instanceOf(Date);
+    });
+
+    it("Fallback for drivers without native support", async () => {
+        const fallbackDriver = Object.create(driver);
+        fallbackDriver.upsert = undefined;
+
+        DataSource.set("upsert", new DataSource("upsert", fallbackDriver));
+
+        try {
+            const result = await PageStat.finder.upsertMany([
+                { id: 7, path: "/blog", title: "Blog", views: 1 },
+                { id: 8, path: "/blog", title: "Blog", views: 1 },
+                { id: 9, path: "/", title: "Home", views: 1 },
+            ], ["path"], { views: DataUpdate.increment(1) });
+
+            expect(result).to.be.eql({ inserted: 1, updated: 2 });
+
+            // Keep the existing values (only updatedAt is set)
+            expect(await new PageStat({ id: 1, path: "/", title: "Other", views: 0 }).upsert(["id"], {})).to.be.equal("updated");
+
+            const stored = await PageStat.finder.findByKey(1);
+
+            expect(stored.title).to.be.equal("Home page");
+            expect(stored.views).to.be.equal(12);
+            expect((await PageStat.finder.findByKey(7)).views).to.be.equal(2);
+        } finally {
+            DataSource.set("upsert", dataSource);
+        }
+    });
+});
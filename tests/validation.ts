@@ -0,0 +1,97 @@
+// Test (Validation)
+
+"use strict";
+
+import { expect } from 'chai';
+import { DataFilter, DataSource, MemoryDriver, ValidationError } from '../src/index';
+import { Member } from './models/member';
+
+const driver = new MemoryDriver({
+    tables: {
+        member: { primaryKey: "id", autoIncrement: true },
+    },
+});
+
+DataSource.set("validation", new DataSource("validation", driver));
+
+describe("Validation", () => {
+
+    it("Insert validates every field", async () => {
+        let error: ValidationError = null;
+
+        try {
+            await new Member({ username: "ab", email: "invalid", age: 200, role: "root" }).insert();
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).to.be.instanceOf(ValidationError);
+        expect(error.getFields()).to.be.eql(["username", "email", "age", "role"]);
+        expect(error.failures.map(f => f.rule)).to.be.eql(["minLength", "pattern", "max", "enum"]);
+        expect(await Member.finder.count(DataFilter.any())).to.be.equal(0);
+
+        error = null;
+
+        try {
+            await new Member({ username: null, email: null, age: null, role: "" }).insert();
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).to.be.instanceOf(ValidationError);
+        expect(error.failures).to.be.eql([
+            { field: "username", rule: "required", message: "is required" },
+            { field: "role", rule: "required", message: "is required" },
+        ]);
+
+        await new Member({ username: "alice", email: "alice@example.com", age: 30, role: "admin" }).insert();
+
+        expect(await Member.finder.count(DataFilter.any())).to.be.equal(1);
+    });
+
+    it("Custom async validators", async () => {
+        let error: ValidationError = null;
+
+        try {
+            await new Member({ username: "alice2", email: "alice@example.com", age: 20, role: "user" }).insert();
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).to.be.instanceOf(ValidationError);
+        expect(error.failures).to.be.eql([
+            { field: "email", rule: "custom", message: "is already in use" },
+        ]);
+
+        // The model itself does not conflict with its own email
+        await new Member({ username: "bob", email: "bob@example.com", age: 20, role: "user" }).insert();
+
+        const alice = (await Member.finder.find(DataFilter.equals("username", "alice")))[0];
+        await alice.validate();
+    });
+
+    it("Save validates the changed fields", async () => {
+        // Invalid data already stored is not validated if not changed
+        await Member.finder.update({ age: 5 }, DataFilter.equals("username", "bob"));
+
+        const bob = (await Member.finder.find(DataFilter.equals("username", "bob")))[0];
+        bob.role = "admin";
+
+        expect(await bob.save()).to.be.true;
+
+        bob.username = "this-username-is-too-long";
+        bob.email = "alice@example.com";
+
+        let error: ValidationError = null;
+
+        try {
+            await bob.save();
+        } catch (ex) {
+            error = ex;
+        }
+
+        expect(error).to.be.instanceOf(ValidationError);
+        expect(error.getFields()).to.be.eql(["username", "email"]);
+        expect((await Member.finder.findByKey(bob.id)).username).to.be.equal("bob");
+    });
+});